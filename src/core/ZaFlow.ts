@@ -5,7 +5,9 @@ import { ExecutionMode, Message, ModelConfig, RunOptions, StreamOptions, ZaFlowO
 import { Hooks } from '../types/hooks';
 import { Provider } from '../types/provider';
 import { StoragePlugin } from '../types/storage';
+import { StreamEvent } from '../types/stream';
 import { Tool, ToolContext } from '../types/tool';
+import { isAbortError } from '../utils/system/abort';
 import { generateExecutionId } from '../utils/system/id';
 import { semanticSearch } from '../utils/intelligence/SemanticSearch';
 import { ContextManager } from './state/Context';
@@ -52,7 +54,9 @@ export default class ZaFlow<TContext = any> {
       this.contextManager,
       this.sharedMemory,
       this.storage,
-      this.hooks
+      this.hooks,
+      undefined,
+      options.retryConfig,
     );
 
     this.executionEngine = new ExecutionEngine(
@@ -62,7 +66,10 @@ export default class ZaFlow<TContext = any> {
       this.config,
       this.historyManager,
       this.toolExecutor,
-      this.hooks
+      this.hooks,
+      options.loopPolicy,
+      options.orchestration,
+      options.retryConfig,
     );
   }
 
@@ -98,7 +105,7 @@ export default class ZaFlow<TContext = any> {
     this.promptManager.addPrompt(prompt, context);
   }
 
-  async run(message: string | Message | ContentPart[], options?: RunOptions): Promise<ZaFlowResponse> {
+  async run<T = any>(message: string | Message | ContentPart[], options?: RunOptions<T>): Promise<ZaFlowResponse<T>> {
     const startTime = Date.now();
     const executionId = generateExecutionId();
 
@@ -125,6 +132,7 @@ export default class ZaFlow<TContext = any> {
           conversationHistory: this.getHistory(),
           metadata: { executionId, timestamp: Date.now(), mode: this.mode },
           storage: this.storage,
+          signal: options?.signal,
         };
 
         const { summary } = await this.mediaProcessor.process(mediaParts, toolContext);
@@ -149,6 +157,7 @@ export default class ZaFlow<TContext = any> {
             conversationHistory: this.getHistory(),
             metadata: { executionId, timestamp: Date.now(), mode: this.mode },
             storage: this.storage,
+            signal: options?.signal,
           };
 
           const { summary } = await this.mediaProcessor.process(quotedMediaParts, toolContext);
@@ -210,7 +219,7 @@ export default class ZaFlow<TContext = any> {
         content: '',
         error: {
           message: err.message,
-          code: 'EXECUTION_ERROR',
+          code: isAbortError(err) || options?.signal?.aborted ? 'ABORTED' : 'EXECUTION_ERROR',
           details: err,
         },
       };
@@ -218,6 +227,16 @@ export default class ZaFlow<TContext = any> {
   }
 
   async *stream(message: string | Message | ContentPart[], options?: StreamOptions): AsyncIterableIterator<string> {
+    for await (const event of this.streamEvents(message, options)) {
+      if (event.type === 'text-delta') {
+        yield event.text;
+      } else if (event.type === 'error') {
+        throw event.error.details instanceof Error ? event.error.details : new Error(event.error.message);
+      }
+    }
+  }
+
+  async *streamEvents(message: string | Message | ContentPart[], options?: StreamOptions): AsyncIterableIterator<StreamEvent> {
     let userMessage: Message;
 
     if (typeof message === 'string') {
@@ -234,10 +253,13 @@ export default class ZaFlow<TContext = any> {
     const systemPrompt = this.promptManager.getSystemPrompt(options?.systemPrompt);
     const streamOptions = { ...options, systemPrompt };
 
-    const streamIter = this.executionEngine.stream(userMessage, this.mode, streamOptions);
+    const eventIter = this.executionEngine.streamEvents(userMessage, this.mode, streamOptions);
 
-    for await (const chunk of streamIter) {
-      yield chunk;
+    for await (const event of eventIter) {
+      if (event.type === 'error') {
+        this.hooks?.onError?.(event.error.details, { phase: 'orchestration', input: getTextContent(userMessage.content) });
+      }
+      yield event;
     }
 
     if (!options?.persistContext) {
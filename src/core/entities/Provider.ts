@@ -1,15 +1,24 @@
 import { ModelConfig } from '../../types/core';
-import { Provider as IProvider, ProviderMessage, ProviderResponse } from '../../types/provider';
+import { RetryConfig } from '../../types/optimization';
+import type { RateLimiter } from '../../utils/system/RateLimiter';
+import { Provider as IProvider, ProviderMessage, ProviderCallOptions, ProviderResponse, ProviderStreamChunk } from '../../types/provider';
 import { Tool } from '../../types/tool';
 
 export abstract class BaseProvider implements IProvider {
   abstract name: string;
   abstract type: string;
   defaultModel?: string;
+  retry?: RetryConfig;
+  rateLimiter?: RateLimiter;
 
-  abstract chat(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[]): Promise<ProviderResponse>;
+  abstract chat(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[], options?: ProviderCallOptions): Promise<ProviderResponse>;
 
-  abstract stream?(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[]): AsyncIterableIterator<string>;
+  abstract stream?(
+    messages: ProviderMessage[],
+    config: ModelConfig,
+    tools?: Tool[],
+    options?: ProviderCallOptions,
+  ): AsyncIterableIterator<string | ProviderStreamChunk>;
 
   protected mergeConfig(defaultConfig?: ModelConfig, override?: ModelConfig): ModelConfig {
     return { ...defaultConfig, ...override };
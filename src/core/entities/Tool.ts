@@ -3,7 +3,7 @@ import { zodToJsonSchema } from '../../protocol/SchemaConverter';
 import type { MediaType } from '../../types/content';
 import type { RetryConfig } from '../../types/optimization';
 import type { Tool as ITool, ToolContext, ToolDefinition } from '../../types/tool';
-import { retryWithBackoff } from '../../utils/system/retry';
+import { createToolValidationError } from '../../utils/system/validator';
 
 export class Tool<TSchema extends z.ZodSchema = any> implements ITool<TSchema> {
   name: string;
@@ -41,10 +41,10 @@ export class Tool<TSchema extends z.ZodSchema = any> implements ITool<TSchema> {
       if (nullResult.success) {
         validatedArgs = nullResult.data;
       } else {
-        throw validationResult.error;
+        throw createToolValidationError(this.name, validationResult.error.issues);
       }
     } else {
-      throw validationResult.error;
+      throw createToolValidationError(this.name, validationResult.error.issues);
     }
 
     if (this.cache) {
@@ -56,11 +56,7 @@ export class Tool<TSchema extends z.ZodSchema = any> implements ITool<TSchema> {
       }
     }
 
-    const executor = async () => {
-      return await this.execute(validatedArgs, context);
-    };
-
-    const result = this.retry ? await retryWithBackoff(executor, this.retry) : await executor();
+    const result = await this.execute(validatedArgs, context);
 
     if (this.cache) {
       const cacheKey = this.getCacheKey(validatedArgs);
@@ -0,0 +1,86 @@
+import type { AgentConstraints, ConstraintViolation } from '../../types/agent';
+import type { Hooks } from '../../types/hooks';
+import type { ToolCall } from '../../types/provider';
+
+/**
+ * Enforces AgentConstraints for a single agent invocation
+ */
+export class ConstraintGuard {
+  readonly signal: AbortSignal;
+  private controller = new AbortController();
+  private timer?: ReturnType<typeof setTimeout>;
+  private toolCalls = 0;
+  private violation?: ConstraintViolation;
+  private onParentAbort = () => this.controller.abort(this.parentSignal?.reason);
+
+  constructor(
+    private agentName: string,
+    private constraints: AgentConstraints = {},
+    private parentSignal?: AbortSignal,
+    private hooks?: Hooks,
+  ) {
+    this.signal = this.controller.signal;
+
+    if (parentSignal?.aborted) {
+      this.onParentAbort();
+    } else {
+      parentSignal?.addEventListener('abort', this.onParentAbort, { once: true });
+    }
+
+    if (constraints.maxExecutionTime !== undefined) {
+      this.timer = setTimeout(() => {
+        this.exceed('maxExecutionTime', constraints.maxExecutionTime!);
+        this.controller.abort(new Error(`Agent "${agentName}" exceeded maxExecutionTime of ${constraints.maxExecutionTime}ms`));
+      }, constraints.maxExecutionTime);
+    }
+  }
+
+  get exceeded(): ConstraintViolation | undefined {
+    return this.violation;
+  }
+
+  get remainingToolCalls(): number {
+    const limit = this.constraints.maxToolCalls;
+    return limit === undefined ? Infinity : Math.max(0, limit - this.toolCalls);
+  }
+
+  /**
+   * Trim tool calls to the remaining maxToolCalls budget
+   */
+  limitToolCalls(toolCalls: ToolCall[]): ToolCall[] {
+    const limit = this.constraints.maxToolCalls;
+
+    if (limit === undefined) {
+      this.toolCalls += toolCalls.length;
+      return toolCalls;
+    }
+
+    const allowed = toolCalls.slice(0, this.remainingToolCalls);
+    this.toolCalls += allowed.length;
+
+    if (allowed.length < toolCalls.length) {
+      this.exceed('maxToolCalls', limit);
+    }
+
+    return allowed;
+  }
+
+  /**
+   * Whether the invocation was aborted by this guard's time limit rather than the caller
+   */
+  get timedOut(): boolean {
+    return this.violation?.constraint === 'maxExecutionTime' && this.signal.aborted && !this.parentSignal?.aborted;
+  }
+
+  dispose(): void {
+    clearTimeout(this.timer);
+    this.parentSignal?.removeEventListener('abort', this.onParentAbort);
+  }
+
+  private exceed(constraint: ConstraintViolation['constraint'], limit: number): void {
+    if (this.violation) return;
+
+    this.violation = { agentName: this.agentName, constraint, limit };
+    this.hooks?.onConstraintExceeded?.(this.violation);
+  }
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { DependencyGraph } from './DependencyGraph';
+
+describe('DependencyGraph', () => {
+  it('orders calls after the calls they reference', () => {
+    const graph = DependencyGraph.fromToolCalls([
+      { id: 'b', name: 'format', arguments: { value: { $ref: 'a' } } },
+      { id: 'a', name: 'fetch', arguments: {} },
+    ]);
+
+    expect(graph.getExecutionOrder()).toEqual(['a', 'b']);
+    expect(graph.getDependencies('b')).toEqual(['a']);
+  });
+
+  it('rejects duplicate ids', () => {
+    expect(() =>
+      DependencyGraph.fromToolCalls([
+        { id: 'x', name: 'a', arguments: {} },
+        { id: 'x', name: 'b', arguments: {} },
+      ]),
+    ).toThrow(/Duplicate tool call id 'x'/);
+  });
+
+  it('treats $ref values that name no call in the batch as data', () => {
+    const schema = { type: 'object', properties: { a: { $ref: '#/$defs/A' } } };
+    const graph = DependencyGraph.fromToolCalls([{ id: 's', name: 'validate', arguments: { schema } }]);
+
+    expect(graph.getDependencies('s')).toEqual([]);
+    expect(DependencyGraph.resolveReferences({ schema }, new Map())).toEqual({ schema });
+  });
+
+  it('substitutes results, optionally by path', () => {
+    const results = new Map<string, any>([['a', { user: { name: 'Ada' } }]]);
+
+    expect(DependencyGraph.resolveReferences({ whole: { $ref: 'a' }, name: { $ref: 'a', path: 'user.name' }, list: [{ $ref: 'a', path: 'user' }] }, results)).toEqual({
+      whole: { user: { name: 'Ada' } },
+      name: 'Ada',
+      list: [{ name: 'Ada' }],
+    });
+  });
+});
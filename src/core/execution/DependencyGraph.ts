@@ -1,6 +1,19 @@
-import { Graph } from 'graphlib';
+import { alg, Graph } from 'graphlib';
 import { ToolCall } from '../../types/provider';
 
+/**
+ * Reference to another tool call's output inside tool arguments: { "$ref": "<callId>", "path": "optional.dot.path" }
+ * Only `$ref` values naming a call in the same batch are references; anything else (e.g. a JSON Schema) is plain data.
+ */
+interface ToolCallReference {
+  $ref: string;
+  path?: string;
+}
+
+function isReference(value: unknown): value is ToolCallReference {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && typeof (value as ToolCallReference).$ref === 'string';
+}
+
 export class DependencyGraph {
   private graph: Graph;
 
@@ -8,6 +21,70 @@ export class DependencyGraph {
     this.graph = new Graph({ directed: true });
   }
 
+  /**
+   * Build a graph from a batch of tool calls, using `dependsOn` and `$ref` arguments as edges
+   */
+  static fromToolCalls(toolCalls: ToolCall[]): DependencyGraph {
+    const graph = new DependencyGraph();
+
+    for (const toolCall of toolCalls) {
+      if (graph.graph.hasNode(toolCall.id)) {
+        throw new Error(`Duplicate tool call id '${toolCall.id}' (${toolCall.name}); every call in a batch needs a unique id`);
+      }
+
+      graph.addNode(toolCall.id, toolCall);
+    }
+
+    const ids = new Set(toolCalls.map((toolCall) => toolCall.id));
+
+    for (const toolCall of toolCalls) {
+      const dependencies = new Set([...(toolCall.dependsOn || []), ...DependencyGraph.collectReferences(toolCall.arguments, ids)]);
+
+      for (const dependencyId of dependencies) {
+        if (!graph.graph.hasNode(dependencyId)) {
+          throw new Error(`Tool call '${toolCall.id}' (${toolCall.name}) depends on unknown call '${dependencyId}'`);
+        }
+
+        graph.addDependency(dependencyId, toolCall.id);
+      }
+    }
+
+    return graph;
+  }
+
+  /**
+   * Collect the ids of batch calls referenced by `$ref` values in tool arguments
+   */
+  static collectReferences(args: any, ids: Set<string>): string[] {
+    if (isReference(args) && ids.has(args.$ref)) return [args.$ref];
+    if (Array.isArray(args)) return args.flatMap((item) => DependencyGraph.collectReferences(item, ids));
+    if (typeof args === 'object' && args !== null) return Object.values(args).flatMap((value) => DependencyGraph.collectReferences(value, ids));
+    return [];
+  }
+
+  /**
+   * Replace `$ref` values in tool arguments with the referenced calls' results
+   */
+  static resolveReferences(args: any, results: Map<string, any>): any {
+    if (isReference(args) && results.has(args.$ref)) {
+      let value = results.get(args.$ref);
+
+      for (const key of args.path ? args.path.split('.') : []) {
+        value = value?.[key];
+      }
+
+      return value;
+    }
+
+    if (Array.isArray(args)) return args.map((item) => DependencyGraph.resolveReferences(item, results));
+
+    if (typeof args === 'object' && args !== null) {
+      return Object.fromEntries(Object.entries(args).map(([key, value]) => [key, DependencyGraph.resolveReferences(value, results)]));
+    }
+
+    return args;
+  }
+
   addNode(id: string, toolCall: ToolCall) {
     this.graph.setNode(id, toolCall);
   }
@@ -16,11 +93,21 @@ export class DependencyGraph {
     this.graph.setEdge(fromId, toId);
   }
 
+  getToolCall(id: string): ToolCall {
+    return this.graph.node(id);
+  }
+
+  getDependencies(id: string): string[] {
+    return this.graph.predecessors(id) || [];
+  }
+
   getExecutionOrder(): string[] {
+    const cycles = alg.findCycles(this.graph);
+
+    if (cycles.length > 0) {
+      throw new Error(`Circular tool call dependency: ${[...cycles[0], cycles[0][0]].join(' -> ')}`);
+    }
+
     return alg.topsort(this.graph);
   }
 }
-
-// graphlib types might be missing or different, using a simple topological sort if needed
-// But graphlib has alg.topsort
-import { alg } from 'graphlib';
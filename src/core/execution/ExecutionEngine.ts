@@ -1,17 +1,69 @@
+import PQueue from 'p-queue';
+import type { z } from 'zod';
 import { AgentDelegationFormatter } from '../../protocol/AgentDelegation';
+import { MessageAdapter } from '../../protocol/MessageAdapter';
 import { ResponseFormatter } from '../../protocol/ResponseFormatter';
 import { ToolCallParser } from '../../protocol/ToolCallParser';
-import { Agent } from '../../types/agent';
+import { Agent, ConstraintViolation } from '../../types/agent';
 import { extractMediaParts, getTextContent, hasMedia } from '../../types/content';
-import { ExecutionMode, Message, ModelConfig, RunOptions, StreamOptions, TokenUsage, ZaFlowResponse } from '../../types/core';
+import { ExecutionMode, FinishReason, LoopPolicy, Message, ModelConfig, OrchestrationPolicy, RunOptions, StreamOptions, TokenUsage, ZaFlowResponse } from '../../types/core';
 import { Hooks } from '../../types/hooks';
-import { Provider, ProviderMessage } from '../../types/provider';
+import { RetryConfig } from '../../types/optimization';
+import { Provider, ProviderMessage, ProviderResponse, ToolCall, hasNativeTools, hasVision } from '../../types/provider';
+import { StreamEvent } from '../../types/stream';
 import { Tool } from '../../types/tool';
 import { Intent } from '../../utils/intelligence/Intent';
 import { generateExecutionId } from '../../utils/system/id';
-import { simulateStreaming } from '../../utils/system/streaming';
+import { isAbortError, throwIfAborted } from '../../utils/system/abort';
+import { resolveRetryConfig, retryWithBackoff } from '../../utils/system/retry';
+import { estimateRequestTokens } from '../../utils/system/RateLimiter';
+import { createMarkupFilter, createStreamChannel } from '../../utils/system/streaming';
+import { formatZodIssues, isToolValidationError, parseJsonOutput } from '../../utils/system/validator';
 import { HistoryManager } from '../state/History';
-import { ToolExecutor } from './ToolExecutor';
+import { ConstraintGuard } from './ConstraintGuard';
+import { ToolExecutionResult, ToolExecutor } from './ToolExecutor';
+
+interface RunStats {
+  /** Time spent waiting on provider rate limiters, in milliseconds */
+  rateLimitWait: number;
+  /** Provider and model that answered the latest turn */
+  provider?: string;
+  model?: string;
+}
+
+interface TurnOptions {
+  emit?: (event: StreamEvent) => void;
+  signal?: AbortSignal;
+  stats?: RunStats;
+  /** Agent whose tool calls this turn reports, 'main' when unset */
+  agentName?: string;
+  /** Set once a turn has streamed text, so later turns sharing these options start on a new paragraph */
+  textEmitted?: boolean;
+}
+
+/** Tool and agent call markup is parsed from the response, never shown as text */
+const CALL_MARKUP_TAGS = ['tool_call', 'agent_call'];
+
+interface ToolLoop {
+  provider: Provider;
+  config: ModelConfig;
+  tools: Tool[];
+  agentName: string;
+  mode: ExecutionMode;
+  policy: LoopPolicy;
+  messages: () => ProviderMessage[];
+  addMessage: (message: ProviderMessage) => void;
+  usage: TokenUsage;
+  toolsCalled: string[];
+  guard?: ConstraintGuard;
+  signal?: AbortSignal;
+  emit?: (event: StreamEvent) => void;
+  /** Stream provider text as text-delta events (top-level answers only) */
+  streamText?: boolean;
+  stats?: RunStats;
+  /** Schema the final answer must match (run-level `schema`) */
+  schema?: z.ZodType;
+}
 
 export class ExecutionEngine {
   constructor(
@@ -22,69 +74,320 @@ export class ExecutionEngine {
     private historyManager: HistoryManager,
     private toolExecutor: ToolExecutor,
     private hooks?: Hooks,
+    private loopPolicy: LoopPolicy = {},
+    private orchestration: OrchestrationPolicy = {},
+    private retryConfig?: RetryConfig,
   ) {}
 
-  async run(message: Message, mode: ExecutionMode, options?: RunOptions): Promise<ZaFlowResponse> {
+  async run(message: Message, mode: ExecutionMode, options?: RunOptions, emit?: (event: StreamEvent) => void): Promise<ZaFlowResponse> {
     const startTime = Date.now();
     const textMessage = getTextContent(message.content);
+    const stats: RunStats = { rateLimitWait: 0 };
 
     let response: ZaFlowResponse;
 
     switch (mode) {
       case 'single':
-        response = await this.runSingle(textMessage, options);
+        response = await this.runSingle(textMessage, options, emit, stats);
         break;
       case 'agentic':
-        response = await this.runAgentic(options);
+        response = await this.runAgentic(options, emit, stats);
         break;
       case 'autonomous':
-        response = await this.runAutonomous(message, options);
+        response = await this.runAutonomous(message, options, emit, stats);
         break;
       default:
         throw new Error(`Unknown mode: ${mode}`);
     }
 
+    if (options?.schema) {
+      response = await this.enforceSchema(response, options, mode, stats);
+    }
+
     if (response.metadata) {
       response.metadata.executionTime = Date.now() - startTime;
+
+      if (stats.rateLimitWait > 0) {
+        response.metadata.rateLimitWait = stats.rateLimitWait;
+      }
+
+      if (stats.model) {
+        response.metadata.model = stats.model;
+      }
+
+      response.metadata.provider = stats.provider;
     }
 
+    response.finishReason = response.finishReason || 'stop';
+
     return response;
   }
 
-  async *stream(message: Message, mode: ExecutionMode, options?: StreamOptions): AsyncIterableIterator<string> {
-    if (mode === 'agentic' || mode === 'autonomous') {
-      const response = await this.run(message, mode, {
+  async *streamEvents(message: Message, mode: ExecutionMode, options?: StreamOptions): AsyncIterableIterator<StreamEvent> {
+    const channel = createStreamChannel<StreamEvent>();
+    let fullText = '';
+    let failed = false;
+    let settled = false;
+
+    // Cancel the run when the caller aborts or stops consuming the stream early
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(options?.signal?.reason);
+
+    if (options?.signal?.aborted) {
+      onAbort();
+    } else {
+      options?.signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    const emit = (event: StreamEvent) => {
+      if (event.type === 'text-delta') {
+        fullText += event.text;
+        this.hooks?.onStreamChunk?.(event.text);
+      }
+      channel.push(event);
+    };
+
+    this.run(
+      message,
+      mode,
+      {
+        config: options?.config,
         persistContext: options?.persistContext,
         detailed: true,
         systemPrompt: options?.systemPrompt,
-      });
+        signal: controller.signal,
+        loopPolicy: options?.loopPolicy,
+        orchestration: options?.orchestration,
+      },
+      emit,
+    ).then(
+      (response) => {
+        settled = true;
+        emit({ type: 'usage', usage: response.metadata.tokensUsed });
+        channel.close();
+      },
+      (error) => {
+        const err = error as Error;
+        settled = true;
+        failed = true;
+        const code = isAbortError(err) || controller.signal.aborted ? 'ABORTED' : 'EXECUTION_ERROR';
+        emit({ type: 'error', error: { message: err.message, code, details: err } });
+        channel.close();
+      },
+    );
+
+    try {
+      yield* channel;
+    } finally {
+      options?.signal?.removeEventListener('abort', onAbort);
+
+      if (!settled) {
+        controller.abort();
+      }
+    }
+
+    if (!failed) {
+      this.hooks?.onStreamComplete?.(fullText);
+    }
+  }
+
+  /**
+   * Run a single model turn, emitting text and tool call events as they arrive when streaming.
+   */
+  private async callProvider(
+    provider: Provider,
+    messages: ProviderMessage[],
+    config: ModelConfig,
+    tools?: Tool[],
+    turn: TurnOptions = {},
+  ): Promise<ProviderResponse> {
+    const { emit, signal, agentName = 'main' } = turn;
+    throwIfAborted(signal);
+
+    if (!emit) {
+      return await this.chatWithRetry(provider, messages, config, tools, turn);
+    }
+
+    const hasTools = tools && tools.length > 0;
+    const text = this.createTextEmitter(turn);
 
-      for await (const chunk of simulateStreaming(response.content)) {
-        this.hooks?.onStreamChunk?.(chunk);
-        yield chunk;
+    if (!provider.stream) {
+      const response = await this.chatWithRetry(provider, messages, config, tools, turn);
+
+      text.push(response.content || '');
+      text.flush();
+
+      if ((!response.toolCalls || response.toolCalls.length === 0) && hasTools && ToolCallParser.hasToolCalls(response.content)) {
+        response.toolCalls = ToolCallParser.parse(response.content);
       }
-      this.hooks?.onStreamComplete?.(response.content);
-    } else {
-      if (this.provider.stream) {
-        const messages = this.prepareMessages(options?.systemPrompt);
-        const config = { ...this.config, ...options?.config, stream: true };
-        const streamIter = this.provider.stream(messages, config, this.tools);
-
-        let fullText = '';
-        for await (const chunk of streamIter) {
-          fullText += chunk;
-          this.hooks?.onStreamChunk?.(chunk);
-          yield chunk;
-        }
-        this.hooks?.onStreamComplete?.(fullText);
-      } else {
-        const response = await this.run(message, mode, options);
-        for await (const chunk of simulateStreaming(response.content)) {
-          this.hooks?.onStreamChunk?.(chunk);
-          yield chunk;
+
+      this.emitToolCalls(response.toolCalls || [], agentName, emit);
+      return response;
+    }
+
+    // Capabilities can differ per model, so check the one this turn requests
+    const nativeTools = hasNativeTools(provider, config.model);
+    const streamMessages = hasTools && !nativeTools ? MessageAdapter.withToolInstructions(messages, tools) : messages;
+
+    const streamTools = hasTools && nativeTools ? tools : undefined;
+    const announced = new Set<string>();
+    let content = '';
+    let toolCalls: ToolCall[] = [];
+    let finishReason: ProviderResponse['finishReason'];
+    let usage: ProviderResponse['usage'];
+    let answeredBy: { provider?: string; model?: string } = {};
+
+    // A stream is only retried until its first chunk arrives; after that, output has already been emitted
+    const opened = await this.withProviderRetry(provider, streamMessages, config, turn, async () => {
+      const iterator = provider.stream(streamMessages, { ...config, stream: true }, streamTools, { signal });
+      return { iterator, first: await iterator.next() };
+    });
+
+    for await (const chunk of this.resumeStream(opened.iterator, opened.first)) {
+      if (typeof chunk === 'string') {
+        content += chunk;
+        text.push(chunk);
+        continue;
+      }
+
+      switch (chunk.type) {
+        case 'text':
+          content += chunk.text;
+          text.push(chunk.text);
+          break;
+        case 'tool-call-delta':
+          if (chunk.id && chunk.name && !announced.has(chunk.id)) {
+            announced.add(chunk.id);
+            emit({ type: 'tool-call-start', toolCallId: chunk.id, toolName: chunk.name, agentName });
+          }
+          if (chunk.id && chunk.argumentsDelta && announced.has(chunk.id)) {
+            emit({ type: 'tool-call-args-delta', toolCallId: chunk.id, argsDelta: chunk.argumentsDelta });
+          }
+          break;
+        case 'tool-call':
+          toolCalls.push(chunk.toolCall);
+          break;
+        case 'finish':
+          finishReason = chunk.finishReason;
+          usage = chunk.usage;
+          answeredBy = { provider: chunk.provider, model: chunk.model };
+          break;
+      }
+    }
+
+    text.flush();
+
+    if (toolCalls.length === 0 && hasTools && ToolCallParser.hasToolCalls(content)) {
+      toolCalls = ToolCallParser.parse(content);
+    }
+
+    this.emitToolCalls(toolCalls, agentName, emit, announced);
+
+    const response: ProviderResponse = {
+      content,
+      usage,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      finishReason: toolCalls.length > 0 ? 'tool_calls' : finishReason || 'stop',
+      ...answeredBy,
+    };
+
+    this.recordAnswer(provider, config, response, turn.stats);
+    return response;
+  }
+
+  /**
+   * Emit a turn's text as text-delta events, without tool/agent call markup and separated from earlier turns
+   */
+  private createTextEmitter(turn: TurnOptions): { push(text: string): void; flush(): void } {
+    const filter = createMarkupFilter(CALL_MARKUP_TAGS);
+    let started = false;
+    let heldSpace = '';
+
+    // Whitespace is held until more text follows, so stripped markup leaves no stray blank lines
+    const emitText = (text: string) => {
+      const body = text.trimEnd();
+
+      if (!body) {
+        if (started) heldSpace += text;
+        return;
+      }
+
+      const chunk = started ? heldSpace + body : `${turn.textEmitted ? '\n\n' : ''}${body.trimStart()}`;
+      heldSpace = text.slice(body.length);
+      started = true;
+      turn.textEmitted = true;
+      turn.emit?.({ type: 'text-delta', text: chunk });
+    };
+
+    return {
+      push: (text) => emitText(filter.push(text)),
+      flush: () => emitText(filter.flush()),
+    };
+  }
+
+  private async chatWithRetry(provider: Provider, messages: ProviderMessage[], config: ModelConfig, tools: Tool[] | undefined, turn: TurnOptions): Promise<ProviderResponse> {
+    const response = await this.withProviderRetry(provider, messages, config, turn, () => provider.chat(messages, config, tools, { signal: turn.signal }));
+    this.recordAnswer(provider, config, response, turn.stats);
+    return response;
+  }
+
+  private recordAnswer(provider: Provider, config: ModelConfig, response: ProviderResponse, stats?: RunStats): void {
+    if (stats) {
+      stats.provider = response.provider || provider.name;
+      stats.model = response.model || config.model || provider.defaultModel;
+    }
+  }
+
+  /**
+   * Run a provider request through the provider's rate limiter (every attempt) and the retry policy
+   */
+  private withProviderRetry<T>(provider: Provider, messages: ProviderMessage[], config: ModelConfig, turn: TurnOptions, fn: () => Promise<T>): Promise<T> {
+    const { signal, stats } = turn;
+    const estimatedTokens = provider.rateLimiter ? estimateRequestTokens(messages, config) : 0;
+
+    const attempt = async () => {
+      if (provider.rateLimiter) {
+        const waited = await provider.rateLimiter.acquire(estimatedTokens, signal);
+
+        if (stats) {
+          stats.rateLimitWait += waited;
         }
-        this.hooks?.onStreamComplete?.(response.content);
       }
+
+      return fn();
+    };
+
+    return retryWithBackoff(attempt, resolveRetryConfig(this.retryConfig, provider.retry), {
+      signal,
+      onRetry: async (attempt, error) => {
+        await this.hooks?.onRetry?.(attempt, error, { phase: 'provider', attempt });
+        await this.hooks?.onError?.(error, { phase: 'provider', attempt });
+      },
+    });
+  }
+
+  private async *resumeStream<T>(iterator: AsyncIterator<T>, first: IteratorResult<T>): AsyncIterableIterator<T> {
+    for (let next = first; !next.done; next = await iterator.next()) {
+      yield next.value;
+    }
+  }
+
+  private emitToolCalls(toolCalls: ToolCall[], agentName: string, emit?: (event: StreamEvent) => void, announced?: Set<string>): void {
+    if (!emit) return;
+
+    for (const toolCall of toolCalls) {
+      if (announced?.has(toolCall.id)) continue;
+
+      emit({ type: 'tool-call-start', toolCallId: toolCall.id, toolName: toolCall.name, agentName });
+      emit({ type: 'tool-call-args-delta', toolCallId: toolCall.id, argsDelta: JSON.stringify(toolCall.arguments ?? {}) });
+    }
+  }
+
+  private emitToolResults(results: Array<{ result: any; name: string; id: string }>, agentName: string, emit?: (event: StreamEvent) => void): void {
+    if (!emit) return;
+
+    for (const result of results) {
+      emit({ type: 'tool-result', toolCallId: result.id, toolName: result.name, agentName, result: result.result });
     }
   }
 
@@ -100,11 +403,9 @@ export class ExecutionEngine {
     return history;
   }
 
-  private async runSingle(message: string, options?: RunOptions): Promise<ZaFlowResponse> {
-    const messages = this.prepareMessages(options?.systemPrompt);
-    const config = { ...this.config, ...options?.config };
-
-    const response = await this.provider.chat(messages, config);
+  private async runSingle(message: string, options?: RunOptions, emit?: (event: StreamEvent) => void, stats?: RunStats): Promise<ZaFlowResponse> {
+    const { messages, config } = this.withSchema(this.provider, this.prepareMessages(options?.systemPrompt), { ...this.config, ...options?.config }, options?.schema);
+    const response = await this.callProvider(this.provider, messages, config, undefined, { emit, signal: options?.signal, stats });
 
     return {
       content: response.content,
@@ -118,105 +419,346 @@ export class ExecutionEngine {
             toolsCalled: [],
             agentsCalled: [],
             executionTime: 0,
-            model: this.provider.defaultModel,
+            model: config.model || this.provider.defaultModel,
           }
         : undefined,
     };
   }
 
-  private async runAgentic(options?: RunOptions): Promise<ZaFlowResponse> {
+  /**
+   * Add schema instructions (and JSON mode when the provider has it) to a turn that gives the final answer
+   */
+  private withSchema(provider: Provider, messages: ProviderMessage[], config: ModelConfig, schema?: z.ZodType, preamble?: string): { messages: ProviderMessage[]; config: ModelConfig } {
+    if (!schema) return { messages, config };
+
+    const instructions = preamble ? `${preamble}\n${ResponseFormatter.generateSchemaInstructions(schema)}` : ResponseFormatter.generateSchemaInstructions(schema);
+    const schemaMessages: ProviderMessage[] =
+      messages.length > 0 && messages[0].role === 'system'
+        ? [{ ...messages[0], content: `${getTextContent(messages[0].content)}\n\n${instructions}` }, ...messages.slice(1)]
+        : [{ role: 'system', content: instructions }, ...messages];
+
+    return { messages: schemaMessages, config: provider.supportsJsonMode ? { ...config, responseFormat: 'json' } : config };
+  }
+
+  /**
+   * Provider and config that give a run's final answer: the targeted agent's in agentic mode, the run's otherwise
+   */
+  private resolveAnswerer(mode: ExecutionMode, options?: RunOptions): { provider: Provider; config: ModelConfig; agent?: Agent } {
     const config = { ...this.config, ...options?.config };
-    const toolsCalled: string[] = [];
-    const totalUsage: TokenUsage = { prompt: 0, completion: 0, total: 0 };
+    const agent = mode === 'agentic' && options?.agentName ? this.agents.find((a) => a.name === options.agentName) : undefined;
 
-    let iterations = 0;
-    const maxIterations = 10;
+    return agent ? { provider: agent.getProvider() || this.provider, config: this.resolveAgentConfig(agent, config), agent } : { provider: this.provider, config };
+  }
 
-    while (iterations < maxIterations) {
-      const messages = this.historyManager.getHistory() as ProviderMessage[];
-      const agent = options?.agentName ? this.agents.find((a) => a.name === options.agentName) : undefined;
-      const provider = agent?.getProvider() || this.provider;
-      const tools = agent?.tools || (options?.agentName ? [] : this.tools);
-      const modelConfig = agent?.config || config;
+  private validateOutput<T>(schema: z.ZodType<T>, content: string): { success: boolean; data?: T; issues?: string } {
+    let parsed: unknown;
 
-      const response = await provider.chat(messages, modelConfig, tools);
-      response.content = response.content || '';
+    try {
+      parsed = parseJsonOutput(content);
+    } catch (error) {
+      return { success: false, issues: `- (root): response is not valid JSON (${(error as Error).message})` };
+    }
 
-      if (response.usage) {
-        totalUsage.prompt += response.usage.promptTokens;
-        totalUsage.completion += response.usage.completionTokens;
-        totalUsage.total += response.usage.totalTokens;
-      }
+    const result = schema.safeParse(parsed);
+    return result.success ? { success: true, data: result.data } : { success: false, issues: formatZodIssues(result.error.issues) };
+  }
 
-      let toolCalls = response.toolCalls;
+  private async enforceSchema(response: ZaFlowResponse, options: RunOptions, mode: ExecutionMode, stats?: RunStats): Promise<ZaFlowResponse> {
+    const schema = options.schema!;
+    const maxRetries = options.schemaRetries ?? 2;
+    // Corrections go to whoever gave the answer, so an agent keeps its own provider and model
+    const { provider, config: answerConfig } = this.resolveAnswerer(mode, options);
+    const { messages, config } = this.withSchema(provider, this.prepareMessages(options.systemPrompt), answerConfig, schema);
 
-      if (!toolCalls || toolCalls.length === 0) {
-        if (ToolCallParser.hasToolCalls(response.content)) {
-          toolCalls = ToolCallParser.parse(response.content);
-        }
+    let content = response.content;
+
+    for (let attempt = 0; ; attempt++) {
+      const result = this.validateOutput(schema, content);
+
+      if (result.success) {
+        return { ...response, content, data: result.data };
       }
 
-      if (!toolCalls || toolCalls.length === 0) {
+      if (attempt >= maxRetries) {
         return {
-          content: response.content,
-          metadata: options?.detailed
-            ? {
-                tokensUsed: totalUsage,
-                toolsCalled,
-                agentsCalled: [],
-                executionTime: 0,
-                model: this.provider.defaultModel,
-              }
-            : undefined,
+          ...response,
+          content,
+          error: {
+            message: `Response did not match the schema after ${attempt + 1} attempt(s)`,
+            code: 'SCHEMA_VALIDATION_ERROR',
+            details: result.issues,
+          },
         };
       }
 
-      const toolResults = await this.toolExecutor.executeBatch(toolCalls, 'main', { executionId: generateExecutionId(), mode: 'agentic' });
-      toolsCalled.push(...toolCalls.map((tc) => tc.name));
+      messages.push(
+        { role: 'assistant', content },
+        {
+          role: 'user',
+          content: `Your previous response did not match the required schema:\n${result.issues}\n\n${ResponseFormatter.generateSchemaInstructions(schema)}`,
+        },
+      );
+
+      const retryResponse = await this.callProvider(provider, messages, config, undefined, { signal: options.signal, stats });
+      content = retryResponse.content || '';
+
+      if (retryResponse.usage && response.metadata) {
+        response.metadata.tokensUsed.prompt += retryResponse.usage.promptTokens;
+        response.metadata.tokensUsed.completion += retryResponse.usage.completionTokens;
+        response.metadata.tokensUsed.total += retryResponse.usage.totalTokens;
+      }
+    }
+  }
 
-      this.historyManager.addMessage({
-        role: 'assistant',
-        content: response.content || 'Using tools...',
-        toolCalls: toolCalls,
-      });
+  private resolveLoopPolicy(options?: RunOptions): LoopPolicy {
+    return { maxIterations: 10, maxRepeatedCalls: 3, maxArgumentRetries: 2, summarizeOnLimit: true, ...this.loopPolicy, ...options?.loopPolicy };
+  }
 
-      for (const result of toolResults) {
-        const content =
-          typeof result.result === 'string'
-            ? result.result
-            : result.result === undefined
-            ? 'Tool execution completed with no output.'
-            : JSON.stringify(result.result);
+  /**
+   * An agent's config replaces the run config; its model is applied on top of either
+   */
+  private resolveAgentConfig(agent: Agent, config: ModelConfig): ModelConfig {
+    const agentConfig = agent.config || config;
+    return agent.model ? { ...agentConfig, model: agent.model } : agentConfig;
+  }
 
-        this.historyManager.addMessage({
-          role: 'tool',
-          content,
-          name: result.name,
-          toolCallId: result.id,
+  private async runToolLoop(loop: ToolLoop): Promise<{ content: string; finishReason: FinishReason }> {
+    const { provider, config, tools, agentName, policy, guard, signal, emit } = loop;
+    const turn: TurnOptions = { emit: loop.streamText ? emit : undefined, signal, stats: loop.stats, agentName };
+    const callCounts = new Map<string, number>();
+    const validationFailures = new Map<string, number>();
+    const isWithdrawn = (name: string) => (validationFailures.get(name) || 0) > policy.maxArgumentRetries;
+    // Counted per loop: concurrent delegated agents share loop.toolsCalled, so it is only merged into on exit
+    const loopToolsCalled: string[] = [];
+    let partialContent = '';
+    let limitReason: FinishReason | undefined;
+
+    const addUsage = (usage: ProviderResponse['usage']) => {
+      if (usage) {
+        loop.usage.prompt += usage.promptTokens;
+        loop.usage.completion += usage.completionTokens;
+        loop.usage.total += usage.totalTokens;
+      }
+    };
+
+    try {
+      for (let iteration = 0; iteration < policy.maxIterations; iteration++) {
+        throwIfAborted(signal);
+        const turnTools = guard?.remainingToolCalls === 0 ? [] : tools.filter((t) => !isWithdrawn(t.name));
+
+        // JSON mode can keep models from calling tools, so turns that offer tools only get the schema instructions
+        const schemaTurn = this.withSchema(provider, loop.messages(), config, loop.schema, turnTools.length > 0 ? 'Call tools as needed. Your final answer (a reply without tool calls) must follow these rules:' : undefined);
+        const response = await this.callProvider(provider, schemaTurn.messages, turnTools.length > 0 ? config : schemaTurn.config, turnTools, turn);
+        response.content = response.content || '';
+        addUsage(response.usage);
+
+        let toolCalls = response.toolCalls;
+
+        if (!toolCalls || toolCalls.length === 0) {
+          if (ToolCallParser.hasToolCalls(response.content)) {
+            toolCalls = ToolCallParser.parse(response.content);
+
+            // Sanitize content to remove hallucinations after tool calls
+            if (toolCalls.length > 0) {
+              const xmlMatch = response.content.lastIndexOf('</tool_call>');
+              const tokenMatch = response.content.lastIndexOf('<|call|>');
+
+              if (xmlMatch !== -1) {
+                response.content = response.content.substring(0, xmlMatch + 12);
+              } else if (tokenMatch !== -1) {
+                response.content = response.content.substring(0, tokenMatch + 8);
+              }
+            }
+          }
+        }
+
+        if (!toolCalls || toolCalls.length === 0) {
+          return { content: response.content, finishReason: 'stop' };
+        }
+
+        partialContent = ToolCallParser.strip(response.content) || partialContent;
+
+        if (guard) {
+          toolCalls = guard.limitToolCalls(toolCalls);
+
+          if (toolCalls.length === 0) {
+            return { content: partialContent, finishReason: 'constraint_exceeded' };
+          }
+        }
+
+        const repeated = toolCalls.some((tc) => {
+          const key = `${tc.name}:${JSON.stringify(tc.arguments ?? {})}`;
+          const count = (callCounts.get(key) || 0) + 1;
+          callCounts.set(key, count);
+          return count > policy.maxRepeatedCalls;
+        });
+
+        if (repeated) {
+          limitReason = 'repeated_tool_calls';
+          break;
+        }
+
+        if (policy.maxToolCalls !== undefined && loopToolsCalled.length + toolCalls.length > policy.maxToolCalls) {
+          toolCalls = toolCalls.slice(0, Math.max(0, policy.maxToolCalls - loopToolsCalled.length));
+          limitReason = 'max_tool_calls';
+
+          if (toolCalls.length === 0) {
+            break;
+          }
+        }
+
+        if (!loop.streamText) {
+          this.emitToolCalls(toolCalls, agentName, emit);
+        }
+
+        // Withdrawn tools are no longer offered, but the model may still name them
+        const allowedCalls = toolCalls.filter((tc) => !isWithdrawn(tc.name));
+        const executed = allowedCalls.length > 0 ? await this.toolExecutor.executeBatch(allowedCalls, agentName, { executionId: generateExecutionId(), mode: loop.mode, signal }, tools) : [];
+        const toolResults = toolCalls.map((tc) => (isWithdrawn(tc.name) ? this.rejectWithdrawnCall(tc) : executed[allowedCalls.indexOf(tc)]));
+        this.emitToolResults(toolResults, agentName, emit);
+        loopToolsCalled.push(...allowedCalls.map((tc) => tc.name));
+
+        loop.addMessage({
+          role: 'assistant',
+          content: response.content || 'Using tools...',
+          toolCalls: toolCalls,
         });
+
+        for (const result of toolResults) {
+          let content =
+            typeof result.result === 'string'
+              ? result.result
+              : result.result === undefined
+              ? 'Tool execution completed with no output.'
+              : JSON.stringify(result.result);
+
+          if (isToolValidationError(result.error)) {
+            const failures = (validationFailures.get(result.name) || 0) + 1;
+            validationFailures.set(result.name, failures);
+            content = result.error.message;
+
+            if (failures > policy.maxArgumentRetries) {
+              content += `\nTool '${result.name}' has been withdrawn after ${failures} invalid attempts. Continue without it.`;
+            }
+          }
+
+          loop.addMessage({
+            role: 'tool',
+            content,
+            name: result.name,
+            toolCallId: result.id,
+          });
+        }
+
+        if (limitReason) {
+          break;
+        }
       }
 
-      iterations++;
+      limitReason = limitReason || 'max_iterations';
+
+      if (!policy.summarizeOnLimit) {
+        return { content: partialContent, finishReason: limitReason };
+      }
+
+      const summaryMessages: ProviderMessage[] = [
+        ...loop.messages(),
+        {
+          role: 'user',
+          content: 'You have reached the tool usage limit for this request. Do NOT call any more tools. Using only the information gathered so far, give your best final answer.',
+        },
+      ];
+
+      const summaryTurn = this.withSchema(provider, summaryMessages, config, loop.schema);
+      const summary = await this.callProvider(provider, summaryTurn.messages, summaryTurn.config, undefined, turn);
+      addUsage(summary.usage);
+
+      return { content: ToolCallParser.strip(summary.content || '') || partialContent, finishReason: limitReason };
+    } catch (error) {
+      if (guard?.timedOut) {
+        return { content: partialContent, finishReason: 'constraint_exceeded' };
+      }
+
+      throw error;
+    } finally {
+      loop.toolsCalled.push(...loopToolsCalled);
     }
+  }
+
+  private rejectWithdrawnCall(toolCall: ToolCall): ToolExecutionResult {
+    const error = new Error(`Tool '${toolCall.name}' has been withdrawn after repeated invalid arguments and is no longer available`);
+    this.hooks?.onToolError?.(toolCall.name, error, toolCall.id);
 
     return {
-      content: 'Maximum tool calling iterations reached',
-      metadata: options?.detailed
-        ? {
-            tokensUsed: totalUsage,
-            toolsCalled,
-            agentsCalled: [],
-            executionTime: 0,
-            model: this.provider.defaultModel,
-          }
-        : undefined,
+      result: { error: error.message, tool: toolCall.name, toolCallId: toolCall.id },
+      name: toolCall.name,
+      id: toolCall.id,
+      error,
     };
   }
 
-  private async runAutonomous(userMessage: Message, options?: RunOptions): Promise<ZaFlowResponse> {
+  private async runAgentic(options?: RunOptions, emit?: (event: StreamEvent) => void, stats?: RunStats): Promise<ZaFlowResponse> {
+    const toolsCalled: string[] = [];
+    const totalUsage: TokenUsage = { prompt: 0, completion: 0, total: 0 };
+
+    const { provider, config, agent } = this.resolveAnswerer('agentic', options);
+    const guard = agent ? new ConstraintGuard(agent.name, agent.constraints, options?.signal, this.hooks) : undefined;
+
+    try {
+      const { content, finishReason } = await this.runToolLoop({
+        provider,
+        config,
+        tools: agent?.tools || (options?.agentName ? [] : this.tools),
+        agentName: agent?.name || 'main',
+        mode: 'agentic',
+        policy: this.resolveLoopPolicy(options),
+        messages: () => this.historyManager.getHistory() as ProviderMessage[],
+        addMessage: (message) => this.historyManager.addMessage(message),
+        usage: totalUsage,
+        toolsCalled,
+        guard,
+        signal: guard?.signal ?? options?.signal,
+        emit,
+        streamText: true,
+        stats,
+        schema: options?.schema,
+      });
+
+      return {
+        content,
+        finishReason,
+        metadata: options?.detailed
+          ? {
+              tokensUsed: totalUsage,
+              toolsCalled,
+              agentsCalled: [],
+              executionTime: 0,
+              model: this.provider.defaultModel,
+              ...(guard?.exceeded && { constraintsExceeded: [guard.exceeded] }),
+            }
+          : undefined,
+      };
+    } finally {
+      guard?.dispose();
+    }
+  }
+
+  private async runAutonomous(userMessage: Message, options?: RunOptions, emit?: (event: StreamEvent) => void, stats?: RunStats): Promise<ZaFlowResponse> {
     const agentsCalled: string[] = [];
     const toolsCalled: string[] = [];
+    const constraintsExceeded: ConstraintViolation[] = [];
     const totalUsage: TokenUsage = { prompt: 0, completion: 0, total: 0 };
+    const config = { ...this.config, ...options?.config };
+    const maxRounds = options?.orchestration?.maxRounds ?? this.orchestration.maxRounds ?? 1;
+    const agentQueue = new PQueue({ concurrency: options?.orchestration?.concurrency ?? this.orchestration.concurrency ?? 3 });
+
+    const addUsage = (usage: ProviderResponse['usage']) => {
+      if (usage) {
+        totalUsage.prompt += usage.promptTokens;
+        totalUsage.completion += usage.completionTokens;
+        totalUsage.total += usage.totalTokens;
+      }
+    };
 
     const messages = this.prepareMessages(options?.systemPrompt);
 
@@ -230,7 +772,7 @@ export class ExecutionEngine {
       }
     }
 
-    if (hasMedia(userMessage.content) && !this.provider.supportsVision) {
+    if (hasMedia(userMessage.content) && !hasVision(this.provider, config.model)) {
       const textOnly = getTextContent(userMessage.content);
       const mediaParts = extractMediaParts(userMessage.content);
       const hint = `\n\n[SYSTEM ALERT]: The user has provided ${mediaParts.length} media item(s) which you CANNOT see directly. Please DELEGATE the analysis to the appropriate agent using the <agent_call> format.`;
@@ -241,176 +783,123 @@ export class ExecutionEngine {
       }
     }
 
-    const response = await this.provider.chat(messages, this.config);
-    response.content = response.content || '';
+    const turn: TurnOptions = { emit, signal: options?.signal, stats };
+    const isConversational = Intent.isConversational(getTextContent(userMessage.content));
+    // The hint retry below may replace the first answer, so its text is only streamed once delegation is decided
+    const holdFirstAnswer = this.agents.length > 0 && !isConversational;
 
-    if (response.usage) {
-      totalUsage.prompt += response.usage.promptTokens;
-      totalUsage.completion += response.usage.completionTokens;
-      totalUsage.total += response.usage.totalTokens;
-    }
+    // Without agents there is nothing to delegate, so the first answer is the final one
+    const firstTurn = this.agents.length === 0 ? this.withSchema(this.provider, messages, config, options?.schema) : { messages, config };
+    let response = await this.callProvider(this.provider, firstTurn.messages, firstTurn.config, undefined, holdFirstAnswer ? { signal: options?.signal, stats } : turn);
+    response.content = response.content || '';
+    addUsage(response.usage);
 
     let agentCalls = AgentDelegationFormatter.parseAgentCalls(response.content);
     let toolCalls = ToolCallParser.parse(response.content);
 
-    const isConversational = Intent.isConversational(getTextContent(userMessage.content));
-
-    if (agentCalls.length === 0 && toolCalls.length === 0 && this.agents.length > 0 && !isConversational) {
+    if (agentCalls.length === 0 && toolCalls.length === 0 && holdFirstAnswer) {
       const enforcementMessage = {
         role: 'user' as const,
         content: `HINT: You have specialized agents available. If the request requires specialized processing, use <agent_call>.`,
       };
 
       const retryMessages = [...messages, { role: 'assistant' as const, content: response.content }, enforcementMessage];
-      const retryResponse = await this.provider.chat(retryMessages, this.config);
-
-      if (retryResponse.usage) {
-        totalUsage.prompt += retryResponse.usage.promptTokens;
-        totalUsage.completion += retryResponse.usage.completionTokens;
-        totalUsage.total += retryResponse.usage.totalTokens;
-      }
+      const retryResponse = await this.callProvider(this.provider, retryMessages, config, undefined, { signal: options?.signal, stats });
+      addUsage(retryResponse.usage);
 
       agentCalls = AgentDelegationFormatter.parseAgentCalls(retryResponse.content);
       toolCalls = ToolCallParser.parse(retryResponse.content);
-    }
-
-    if (agentCalls.length > 0 || toolCalls.length > 0) {
-      const agentResults: Array<{ agentName: string; result: string }> = [];
-      const directToolResults: Array<{ name: string; result: any }> = [];
 
-      for (const agentCall of agentCalls) {
-        const agent = this.agents.find((a) => a.name === agentCall.name);
-        if (!agent) {
-          agentResults.push({ agentName: agentCall.name, result: `Error: Agent "${agentCall.name}" not found` });
-          continue;
-        }
+      if (agentCalls.length > 0 || toolCalls.length > 0) {
+        response = retryResponse;
+      }
+    }
 
-        agentsCalled.push(agent.name);
-        this.hooks?.onAgentStart?.(agent.name);
-
-        try {
-          let agentSystemPrompt = agent.getSystemPrompt();
-          if (agent.tools && agent.tools.length > 0) {
-            const agentProvider = agent.getProvider() || this.provider;
-            if (!agentProvider.supportsNativeTools) {
-              agentSystemPrompt += `\n\n${ResponseFormatter.generateToolInstructions(agent.tools, 'xml')}`;
-            } else {
-              agentSystemPrompt += `\n\nUse tools when relevant.`;
-            }
-          }
+    if (holdFirstAnswer) {
+      const text = this.createTextEmitter(turn);
+      text.push(response.content || '');
+      text.flush();
+    }
 
-          const agentMessages: ProviderMessage[] = [
-            { role: 'system', content: agentSystemPrompt },
-            { role: 'user', content: agentCall.task },
-          ];
+    const sharedContext: Array<{ agentName: string; result: string }> = [];
 
-          const agentProvider = agent.getProvider() || this.provider;
-          const agentResponse = await agentProvider.chat(agentMessages, agent.config || this.config, agent.tools);
+    for (let round = 1; agentCalls.length > 0 || toolCalls.length > 0; round++) {
+      const directToolResults: Array<{ name: string; result: any }> = [];
+      const guards: ConstraintGuard[] = [];
 
-          if (agentResponse.usage) {
-            totalUsage.prompt += agentResponse.usage.promptTokens;
-            totalUsage.completion += agentResponse.usage.completionTokens;
-            totalUsage.total += agentResponse.usage.totalTokens;
+      const agentResults = await Promise.all(
+        agentCalls.map(async (agentCall) => {
+          const agent = this.agents.find((a) => a.name === agentCall.name);
+          if (!agent) {
+            return { agentName: agentCall.name, result: `Error: Agent "${agentCall.name}" not found` };
           }
 
-          let subToolCalls = agentResponse.toolCalls;
-          if (!subToolCalls || subToolCalls.length === 0) {
-            if (ToolCallParser.hasToolCalls(agentResponse.content)) {
-              subToolCalls = ToolCallParser.parse(agentResponse.content);
-
-              // Sanitize content to remove hallucinations after tool calls
-              if (subToolCalls.length > 0) {
-                const xmlMatch = agentResponse.content.lastIndexOf('</tool_call>');
-                const tokenMatch = agentResponse.content.lastIndexOf('<|call|>');
-
-                if (xmlMatch !== -1) {
-                  agentResponse.content = agentResponse.content.substring(0, xmlMatch + 12);
-                } else if (tokenMatch !== -1) {
-                  agentResponse.content = agentResponse.content.substring(0, tokenMatch + 8);
-                }
-              }
-            }
-          }
-          subToolCalls = subToolCalls || [];
-
-          if (subToolCalls.length > 0) {
-            const subToolResults = await this.toolExecutor.executeBatch(
-              subToolCalls,
-              agent.name,
-              { executionId: generateExecutionId(), mode: 'autonomous' },
-              agent.tools,
-            );
-            toolsCalled.push(...subToolCalls.map((tc) => tc.name));
-
-            const finalMessages = [
-              ...agentMessages,
-              { role: 'assistant' as const, content: agentResponse.content || 'Using tools...', toolCalls: subToolCalls },
-              ...subToolResults.map((tr) => ({
-                role: 'tool' as const,
-                content: typeof tr.result === 'string' ? tr.result : JSON.stringify(tr.result),
-                name: tr.name,
-                toolCallId: tr.id,
-              })),
-              { role: 'user' as const, content: 'Based on the tool results above, provide a complete answer.' },
-            ];
-
-            const finalResponse = await agentProvider.chat(finalMessages, agent.config || this.config, agent.tools);
-
-            if (finalResponse.usage) {
-              totalUsage.prompt += finalResponse.usage.promptTokens;
-              totalUsage.completion += finalResponse.usage.completionTokens;
-              totalUsage.total += finalResponse.usage.totalTokens;
-            }
+          agentsCalled.push(agent.name);
 
-            agentResults.push({ agentName: agent.name, result: finalResponse.content });
-          } else {
-            agentResults.push({ agentName: agent.name, result: agentResponse.content });
-          }
+          return agentQueue.add(
+            async () => {
+              const guard = new ConstraintGuard(agent.name, agent.constraints, options?.signal, this.hooks);
+              guards.push(guard);
 
-          this.hooks?.onAgentComplete?.(agent.name, agentResponse.content);
-        } catch (error) {
-          const err = error as Error;
-          this.hooks?.onAgentError?.(agent.name, err);
-          agentResults.push({ agentName: agent.name, result: `Error: ${err.message}` });
+              try {
+                const result = await this.runDelegatedAgent(agent, agentCall.task, guard, sharedContext, totalUsage, toolsCalled, options, emit, stats);
+                return { agentName: agent.name, result };
+              } finally {
+                guard.dispose();
+              }
+            },
+            { signal: options?.signal },
+          );
+        }),
+      );
+
+      for (const guard of guards) {
+        if (guard.exceeded) {
+          constraintsExceeded.push(guard.exceeded);
         }
       }
 
       if (toolCalls.length > 0) {
-        const toolResults = await this.toolExecutor.executeBatch(toolCalls, '', { executionId: generateExecutionId(), mode: 'autonomous' }, this.tools);
+        this.emitToolCalls(toolCalls, 'main', emit);
+        const toolResults = await this.toolExecutor.executeBatch(
+          toolCalls,
+          '',
+          { executionId: generateExecutionId(), mode: 'autonomous', signal: options?.signal },
+          this.tools,
+        );
+        this.emitToolResults(toolResults, 'main', emit);
         for (const tr of toolResults) {
           directToolResults.push({ name: tr.name, result: tr.result });
           toolsCalled.push(tr.name);
         }
       }
 
+      sharedContext.push(...agentResults);
+
+      const nextStep =
+        round < maxRounds
+          ? 'If more work is needed, delegate follow-up tasks with <agent_call>. Otherwise, provide a final answer to the user.'
+          : 'Based on these results, provide a final answer to the user. Do NOT delegate again.';
+
       const synthesisPrompt = `The agents have completed their tasks. Here are the results:\n\n${agentResults
         .map((r) => `Agent ${r.agentName}: ${r.result}`)
         .join('\n\n')}\n\n${directToolResults
         .map((r) => `Tool ${r.name}: ${JSON.stringify(r.result)}`)
-        .join('\n\n')}\n\nBased on these results, provide a final answer to the user. Do NOT delegate again.`;
+        .join('\n\n')}\n\n${nextStep}`;
 
-      const synthesisMessages = [...messages, { role: 'user' as const, content: synthesisPrompt }];
+      messages.push({ role: 'assistant', content: response.content }, { role: 'user', content: synthesisPrompt });
 
-      const finalResponse = await this.provider.chat(synthesisMessages, this.config);
+      const synthesisTurn = round >= maxRounds ? this.withSchema(this.provider, messages, config, options?.schema) : { messages, config };
+      response = await this.callProvider(this.provider, synthesisTurn.messages, synthesisTurn.config, undefined, turn);
+      response.content = response.content || '';
+      addUsage(response.usage);
 
-      if (finalResponse.usage) {
-        totalUsage.prompt += finalResponse.usage.promptTokens;
-        totalUsage.completion += finalResponse.usage.completionTokens;
-        totalUsage.total += finalResponse.usage.totalTokens;
+      if (round >= maxRounds) {
+        break;
       }
 
-      return {
-        content: finalResponse.content,
-        metadata: options?.detailed
-          ? {
-              tokensUsed: totalUsage,
-              toolsCalled,
-              agentsCalled,
-              executionTime: 0,
-              model: this.provider.defaultModel,
-            }
-          : undefined,
-      };
+      agentCalls = AgentDelegationFormatter.parseAgentCalls(response.content);
+      toolCalls = ToolCallParser.parse(response.content);
     }
 
     return {
@@ -418,12 +907,81 @@ export class ExecutionEngine {
       metadata: options?.detailed
         ? {
             tokensUsed: totalUsage,
-            toolsCalled: [],
-            agentsCalled: [],
+            toolsCalled,
+            agentsCalled,
             executionTime: 0,
-            model: this.provider.defaultModel,
+            model: config.model || this.provider.defaultModel,
+            ...(constraintsExceeded.length > 0 && { constraintsExceeded }),
           }
         : undefined,
     };
   }
+
+  private async runDelegatedAgent(
+    agent: Agent,
+    task: string,
+    guard: ConstraintGuard,
+    sharedContext: Array<{ agentName: string; result: string }>,
+    usage: TokenUsage,
+    toolsCalled: string[],
+    options?: RunOptions,
+    emit?: (event: StreamEvent) => void,
+    stats?: RunStats,
+  ): Promise<string> {
+    this.hooks?.onAgentStart?.(agent.name);
+    emit?.({ type: 'agent-start', agentName: agent.name, task });
+
+    try {
+      const agentProvider = agent.getProvider() || this.provider;
+      const agentConfig = this.resolveAgentConfig(agent, this.config);
+      let agentSystemPrompt = agent.getSystemPrompt();
+      if (agent.tools && agent.tools.length > 0) {
+        if (!hasNativeTools(agentProvider, agentConfig.model)) {
+          agentSystemPrompt += `\n\n${ResponseFormatter.generateToolInstructions(agent.tools, 'xml')}`;
+        } else {
+          agentSystemPrompt += `\n\nUse tools when relevant.`;
+        }
+      }
+
+      if (sharedContext.length > 0) {
+        agentSystemPrompt += `\n\nResults from earlier agents:\n${sharedContext.map((r) => `Agent ${r.agentName}: ${r.result}`).join('\n\n')}`;
+      }
+
+      const agentMessages: ProviderMessage[] = [
+        { role: 'system', content: agentSystemPrompt },
+        { role: 'user', content: task },
+      ];
+
+      const { content } = await this.runToolLoop({
+        provider: agentProvider,
+        config: agentConfig,
+        tools: agent.tools || [],
+        agentName: agent.name,
+        mode: 'autonomous',
+        policy: this.resolveLoopPolicy(options),
+        messages: () => agentMessages,
+        addMessage: (message) => agentMessages.push(message),
+        usage,
+        toolsCalled,
+        guard,
+        signal: guard.signal,
+        emit,
+        stats,
+      });
+
+      const result = content.trim() || (guard.timedOut ? `Error: Agent "${agent.name}" exceeded maxExecutionTime` : content);
+      this.hooks?.onAgentComplete?.(agent.name, result);
+      emit?.({ type: 'agent-complete', agentName: agent.name, output: result });
+      return result;
+    } catch (error) {
+      if (isAbortError(error) || options?.signal?.aborted) {
+        throw error;
+      }
+
+      const err = error as Error;
+      this.hooks?.onAgentError?.(agent.name, err);
+      emit?.({ type: 'agent-complete', agentName: agent.name, output: `Error: ${err.message}` });
+      return `Error: ${err.message}`;
+    }
+  }
 }
@@ -1,10 +1,21 @@
 import PQueue from 'p-queue';
-import pRetry from 'p-retry';
 import { ToolCall } from '../../types/provider';
 import { Tool, ToolContext, SharedMemory, StorageInterface } from '../../types/tool';
 import { ContextManager } from '../state/Context';
 import { Hooks } from '../../types/hooks';
+import { RetryConfig } from '../../types/optimization';
 import { generateExecutionId } from '../../utils/system/id';
+import { isAbortError } from '../../utils/system/abort';
+import { resolveRetryConfig, retryWithBackoff } from '../../utils/system/retry';
+import { DependencyGraph } from './DependencyGraph';
+
+export interface ToolExecutionResult {
+  result: any;
+  name: string;
+  id: string;
+  /** Set when the call failed; `result` then holds the error payload sent back to the model */
+  error?: Error;
+}
 
 export class ToolExecutor<TContext = any> {
   private queue: PQueue;
@@ -13,6 +24,7 @@ export class ToolExecutor<TContext = any> {
   private sharedMemory: SharedMemory;
   private storage: StorageInterface;
   private hooks?: Hooks;
+  private retryConfig?: RetryConfig;
 
   constructor(
     tools: Tool[],
@@ -21,16 +33,18 @@ export class ToolExecutor<TContext = any> {
     storage: StorageInterface,
     hooks?: Hooks,
     concurrency: number = 3,
+    retryConfig?: RetryConfig,
   ) {
     this.tools = new Map(tools.map((t) => [t.name, t]));
     this.contextManager = contextManager;
     this.sharedMemory = sharedMemory;
     this.storage = storage;
     this.hooks = hooks;
+    this.retryConfig = retryConfig;
     this.queue = new PQueue({ concurrency });
   }
 
-  async execute(toolCall: ToolCall, agentName: string = 'system', metadata: any = {}, tools?: Tool[]): Promise<{ result: any; name: string; id: string }> {
+  async execute(toolCall: ToolCall, agentName: string = 'system', metadata: any = {}, tools?: Tool[]): Promise<ToolExecutionResult> {
     let tool = this.tools.get(toolCall.name);
 
     if (!tool && tools) {
@@ -38,7 +52,8 @@ export class ToolExecutor<TContext = any> {
     }
 
     if (!tool) {
-      throw new Error(`Tool '${toolCall.name}' not found.`);
+      const available = [...new Set([...this.tools.keys(), ...(tools || []).map((t) => t.name)])];
+      throw new Error(`Tool '${toolCall.name}' not found. Available tools: ${available.join(', ') || 'none'}`);
     }
 
     const context: ToolContext<TContext> = {
@@ -52,28 +67,86 @@ export class ToolExecutor<TContext = any> {
         mode: metadata.mode || 'single',
       },
       storage: this.storage,
+      signal: metadata.signal,
     };
 
+    // Invalid arguments are never retried; the model has to correct them. A tool's own `retry` also covers its plain errors
     const executeTask = () =>
-      pRetry(() => tool.run(toolCall.arguments, context), {
-        retries: tool.retry?.maxAttempts || 3,
-        onFailedAttempt: (error) => {
-          console.warn(`Attempt ${error.attemptNumber} failed. There are ${error.retriesLeft} retries left.`);
-        },
+      retryWithBackoff(() => tool.run(toolCall.arguments, context), resolveRetryConfig(this.retryConfig, tool.retry), {
+        signal: metadata.signal,
+        retryUnknown: tool.retry !== undefined,
+        onRetry: (attempt, error) => this.hooks?.onRetry?.(attempt, error, { phase: 'tool', toolName: tool.name, agentName, attempt }),
       });
 
     if (tool.background) {
       // Fire and forget
-      this.queue.add(executeTask).catch((err) => console.error(`Background tool '${toolCall.name}' failed:`, err));
+      this.queue.add(executeTask, { signal: metadata.signal }).catch((err) => console.error(`Background tool '${toolCall.name}' failed:`, err));
       return { result: 'Background task started', name: toolCall.name, id: toolCall.id };
     }
 
-    const result = await this.queue.add(executeTask);
+    const result = await this.queue.add(executeTask, { signal: metadata.signal });
 
     return { result, name: toolCall.name, id: toolCall.id };
   }
 
-  async executeBatch(toolCalls: ToolCall[], agentName?: string, metadata?: any, tools?: Tool[]): Promise<{ result: any; name: string; id: string }[]> {
-    return Promise.all(toolCalls.map((call) => this.execute(call, agentName, metadata, tools)));
+  /**
+   * Execute a batch of tool calls. Failed calls are returned as error results instead of rejecting the batch,
+   * so the model can see what went wrong and correct itself. Only cancellation rejects.
+   */
+  async executeBatch(toolCalls: ToolCall[], agentName?: string, metadata?: any, tools?: Tool[]): Promise<ToolExecutionResult[]> {
+    let graph: DependencyGraph;
+    let order: string[];
+
+    try {
+      graph = DependencyGraph.fromToolCalls(toolCalls);
+      order = graph.getExecutionOrder();
+    } catch (error) {
+      return toolCalls.map((call) => this.toFailure(call, error as Error));
+    }
+
+    const results = new Map<string, any>();
+    const pending = new Map<string, Promise<ToolExecutionResult>>();
+
+    // Each call waits only on its own dependencies, so independent branches run in parallel
+    for (const id of order) {
+      const dependencies = graph.getDependencies(id).map((dependencyId) => pending.get(dependencyId));
+
+      pending.set(
+        id,
+        Promise.all(dependencies).then(async (dependencyResults) => {
+          const toolCall = graph.getToolCall(id);
+          const failed = dependencyResults.find((r) => r.error);
+
+          if (failed) {
+            return this.toFailure(toolCall, new Error(`Skipped because call '${failed.id}' (${failed.name}) failed`));
+          }
+
+          try {
+            const result = await this.execute({ ...toolCall, arguments: DependencyGraph.resolveReferences(toolCall.arguments, results) }, agentName, metadata, tools);
+            results.set(id, result.result);
+            return result;
+          } catch (error) {
+            if (isAbortError(error) || metadata?.signal?.aborted) {
+              throw error;
+            }
+
+            return this.toFailure(toolCall, error as Error);
+          }
+        }),
+      );
+    }
+
+    return Promise.all(toolCalls.map((call) => pending.get(call.id)));
+  }
+
+  private toFailure(toolCall: ToolCall, error: Error): ToolExecutionResult {
+    this.hooks?.onToolError?.(toolCall.name, error, toolCall.id);
+
+    return {
+      result: { error: error.message, tool: toolCall.name, toolCallId: toolCall.id },
+      name: toolCall.name,
+      id: toolCall.id,
+      error,
+    };
   }
 }
@@ -2,12 +2,18 @@ import type { z } from 'zod';
 import { Agent } from './core/entities/Agent';
 import { Tool } from './core/entities/Tool';
 import { defineStorage } from './plugins/storage/StoragePlugin';
+import { AnthropicProvider } from './providers/AnthropicProvider';
 import { CustomProvider } from './providers/CustomProvider';
+import { FallbackProvider } from './providers/FallbackProvider';
+import { RouterProvider } from './providers/RouterProvider';
+import { GeminiProvider } from './providers/GeminiProvider';
 import { GroqProvider } from './providers/GroqProvider';
 import { OllamaProvider } from './providers/OllamaProvider';
+import { OpenAICompatibleProvider } from './providers/OpenAICompatibleProvider';
 import { OpenAIProvider } from './providers/OpenAIProvider';
+import { RateLimiter } from './utils/system/RateLimiter';
 import type { AgentDefinition, Agent as IAgent } from './types/agent';
-import type { Provider, ProviderDefinition } from './types/provider';
+import type { FallbackProviderDefinition, Provider, ProviderDefinition, RouterProviderDefinition } from './types/provider';
 import type { Tool as ITool, ToolDefinition } from './types/tool';
 import type { AudioPart, ContentPart, FilePart, ImagePart, TextPart } from './types/content';
 import type { Message } from './types/core';
@@ -22,6 +28,28 @@ export function defineAgent(definition: AgentDefinition): IAgent {
 }
 
 export function defineProvider(definition: ProviderDefinition): Provider {
+  return withProviderPolicies(createProvider(definition), definition);
+}
+
+export function defineFallbackProvider(definition: FallbackProviderDefinition & Pick<ProviderDefinition, 'retry' | 'rateLimit'>): Provider {
+  return withProviderPolicies(new FallbackProvider(definition), definition);
+}
+
+export function defineRouterProvider(definition: RouterProviderDefinition & Pick<ProviderDefinition, 'retry' | 'rateLimit'>): Provider {
+  return withProviderPolicies(new RouterProvider(definition), definition);
+}
+
+function withProviderPolicies(provider: Provider, { retry, rateLimit }: Pick<ProviderDefinition, 'retry' | 'rateLimit'>): Provider {
+  provider.retry = retry;
+
+  if (rateLimit) {
+    provider.rateLimiter = rateLimit instanceof RateLimiter ? rateLimit : new RateLimiter(rateLimit);
+  }
+
+  return provider;
+}
+
+function createProvider(definition: ProviderDefinition): Provider {
   switch (definition.type) {
     case 'groq':
       if (!definition.apiKey) {
@@ -30,13 +58,37 @@ export function defineProvider(definition: ProviderDefinition): Provider {
       return new GroqProvider(definition.apiKey, definition.defaultModel);
 
     case 'ollama':
-      return new OllamaProvider(definition.baseURL, definition.defaultModel);
+      return new OllamaProvider(definition.baseURL, definition.defaultModel, {
+        supportsNativeTools: definition.supportsNativeTools,
+        supportsVision: definition.supportsVision,
+      });
 
     case 'openai':
       if (!definition.apiKey) {
         throw new Error('OpenAI provider requires an API key');
       }
-      return new OpenAIProvider(definition.apiKey, definition.defaultModel);
+      return new OpenAIProvider(definition.apiKey, definition.defaultModel, definition);
+
+    case 'openai-compatible':
+      if (!definition.baseURL) {
+        throw new Error('OpenAI-compatible provider requires a baseURL');
+      }
+      if (!definition.defaultModel) {
+        throw new Error('OpenAI-compatible provider requires a defaultModel');
+      }
+      return new OpenAICompatibleProvider(definition);
+
+    case 'anthropic':
+      if (!definition.apiKey) {
+        throw new Error('Anthropic provider requires an API key');
+      }
+      return new AnthropicProvider(definition.apiKey, definition.defaultModel, definition.baseURL, definition.timeout);
+
+    case 'gemini':
+      if (!definition.apiKey) {
+        throw new Error('Gemini provider requires an API key');
+      }
+      return new GeminiProvider(definition.apiKey, definition.defaultModel, definition.baseURL, definition.timeout);
 
     case 'custom':
       return new CustomProvider(definition);
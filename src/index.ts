@@ -3,13 +3,14 @@ export { default } from './core/ZaFlow';
 export { default as ZaFlow } from './core/ZaFlow';
 
 // Helper functions
-export { defineTool, defineAgent, defineProvider, defineStorage } from './helpers';
+export { defineTool, defineAgent, defineProvider, defineFallbackProvider, defineRouterProvider, defineStorage } from './helpers';
 
 // 🔥 Multimodal helpers
 export { text, image, imageBase64, audio, file, msg } from './helpers';
 
 // Utils functions
 export * from './utils';
+export { RateLimiter } from './utils/system/RateLimiter';
 
 // Core Architecture Exports
 export * from './core/parsing/ToolParser';
@@ -34,6 +35,9 @@ export type {
   Message,
   QuotedMessage,
   ExecutionMode,
+  LoopPolicy,
+  OrchestrationPolicy,
+  FinishReason,
   TokenUsage,
   ExecutionMetadata,
   ErrorResponse,
@@ -44,6 +48,12 @@ export type {
   ProviderAdapter,
   ProviderResponse,
   ProviderMessage,
+  ProviderStreamChunk,
+  FallbackProviderDefinition,
+  RouterProviderDefinition,
+  ProviderRoute,
+  RouteCondition,
+  RouteContext,
   ToolCall,
   RateLimit,
 
@@ -59,6 +69,7 @@ export type {
   AgentDefinition,
   AgentCapability,
   AgentConstraints,
+  ConstraintViolation,
 
   // Hook types
   Hooks,
@@ -72,8 +83,20 @@ export type {
   // Optimization types
   OptimizationConfig,
   RetryConfig,
+  ErrorClass,
   CacheConfig,
   TokenBudget,
+
+  // Stream event types
+  StreamEvent,
+  TextDeltaEvent,
+  ToolCallStartEvent,
+  ToolCallArgsDeltaEvent,
+  ToolResultEvent,
+  AgentStartEvent,
+  AgentCompleteEvent,
+  UsageEvent,
+  ErrorEvent,
 } from './types';
 
 // 🔥 Multimodal content types
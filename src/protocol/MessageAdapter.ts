@@ -0,0 +1,38 @@
+import { extractMediaParts, getTextContent, hasMedia } from '../types/content';
+import type { ProviderMessage } from '../types/provider';
+import type { Tool } from '../types/tool';
+import { ResponseFormatter } from './ResponseFormatter';
+
+/**
+ * Rewrites messages for models that lack a capability (native tool calling, vision)
+ */
+export class MessageAdapter {
+  /**
+   * Describe tools as XML tool_call instructions in the system message, adding one if needed
+   * Instructions already in the system message (e.g. an agent prompt) are not repeated.
+   */
+  static withToolInstructions(messages: ProviderMessage[], tools: Tool[]): ProviderMessage[] {
+    const instructions = ResponseFormatter.generateToolInstructions(tools, 'xml');
+
+    if (messages.length > 0 && messages[0].role === 'system') {
+      const system = getTextContent(messages[0].content);
+      if (system.includes(instructions)) return messages;
+
+      return [{ ...messages[0], content: `${system}\n\n${instructions}` }, ...messages.slice(1)];
+    }
+
+    return [{ role: 'system', content: instructions }, ...messages];
+  }
+
+  /**
+   * Replace media parts with a note saying how many were dropped
+   */
+  static omitMedia(messages: ProviderMessage[]): ProviderMessage[] {
+    return messages.map((msg) => {
+      if (!hasMedia(msg.content)) return msg;
+
+      const omitted = extractMediaParts(msg.content).length;
+      return { ...msg, content: `${getTextContent(msg.content)}\n\n[${omitted} media item(s) omitted: this model cannot see them]` };
+    });
+  }
+}
@@ -1,4 +1,6 @@
+import type { z } from 'zod';
 import type { Tool } from '../types/tool';
+import { zodToJsonSchema } from './SchemaConverter';
 
 export class ResponseFormatter {
   static formatToolsAsXML(tools: Tool[]): string {
@@ -75,9 +77,18 @@ To use a tool, respond with:
 </tool_call>
 
 You can make multiple tool calls by using multiple <tool_call> blocks.
+If one call needs another call's output, give the first call an <id>step1</id> and use {"$ref": "step1"} as the argument value in the second (add "path": "field.subfield" to pick a nested field).
 After receiving tool results, synthesize them into a final response for the user.`;
     } else {
       return `You have access to the following tools. Use them when needed to help answer the user's question.`;
     }
   }
+
+  static generateSchemaInstructions(schema: z.ZodType): string {
+    return `Respond ONLY with a valid JSON value matching this JSON Schema:
+
+${JSON.stringify(zodToJsonSchema(schema), null, 2)}
+
+Do not wrap the JSON in markdown and do not add any explanation.`;
+  }
 }
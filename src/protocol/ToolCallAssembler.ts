@@ -0,0 +1,68 @@
+import { jsonrepair } from 'jsonrepair';
+import { nanoid } from 'nanoid';
+import { ProviderStreamChunk, ToolCall } from '../types/provider';
+
+interface PendingToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+/**
+ * Reassembles OpenAI-style streamed `delta.tool_calls` fragments into complete tool calls
+ */
+export class ToolCallAssembler {
+  private pending = new Map<number, PendingToolCall>();
+
+  push(deltas: any[]): ProviderStreamChunk[] {
+    const chunks: ProviderStreamChunk[] = [];
+
+    for (const delta of deltas) {
+      const index = delta.index ?? this.pending.size;
+      let call = this.pending.get(index);
+
+      if (!call) {
+        call = { id: delta.id || nanoid(), name: '', arguments: '' };
+        this.pending.set(index, call);
+      }
+
+      if (delta.function?.name) {
+        call.name += delta.function.name;
+      }
+
+      if (delta.function?.arguments) {
+        call.arguments += delta.function.arguments;
+      }
+
+      chunks.push({
+        type: 'tool-call-delta',
+        index,
+        id: call.id,
+        name: delta.function?.name,
+        argumentsDelta: delta.function?.arguments,
+      });
+    }
+
+    return chunks;
+  }
+
+  complete(): ToolCall[] {
+    const toolCalls = [...this.pending.entries()]
+      .sort(([a], [b]) => a - b)
+      .filter(([, call]) => call.name)
+      .map(([, call]) => ({ id: call.id, name: call.name, arguments: this.parseArguments(call.arguments) }));
+
+    this.pending.clear();
+    return toolCalls;
+  }
+
+  private parseArguments(args: string): any {
+    if (!args.trim()) return {};
+
+    try {
+      return JSON.parse(args);
+    } catch {
+      return JSON.parse(jsonrepair(args));
+    }
+  }
+}
@@ -38,7 +38,10 @@ export class ToolCallParser {
                     }
                 } catch (e) {}
              }
-             toolCalls.push({ id: nanoid(), name, arguments: args });
+             const idMatch = /<id>(.*?)<\/id>/.exec(toolContent);
+             const id = idMatch?.[1].trim();
+             // Model-chosen ids may repeat; a repeated id gets a fresh one so no call is lost
+             toolCalls.push({ id: id && !toolCalls.some((call) => call.id === id) ? id : nanoid(), name, arguments: args });
         }
     }
 
@@ -84,6 +87,11 @@ export class ToolCallParser {
     return toolCalls;
   }
 
+  static strip(content: string): string {
+    if (!content) return '';
+    return content.replace(/<tool_call[^>]*>.*?<\/tool_call>/gs, '').trim();
+  }
+
   static hasToolCalls(content: string): boolean {
     if (!content) return false;
     return content.includes('<tool_call>') || 
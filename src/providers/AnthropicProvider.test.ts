@@ -0,0 +1,160 @@
+import http from 'node:http';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { defineProvider, defineTool } from '../helpers';
+import type { Provider, ProviderStreamChunk } from '../types/provider';
+
+interface RecordedRequest {
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+const weather = defineTool({
+  name: 'weather',
+  description: 'Current weather for a city',
+  schema: z.object({ city: z.string() }),
+  execute: async ({ city }) => `Sunny in ${city}`,
+});
+
+describe('AnthropicProvider', () => {
+  let server: http.Server;
+  let requests: RecordedRequest[];
+  let reply: (res: http.ServerResponse) => void;
+  let provider: Provider;
+
+  beforeEach(async () => {
+    requests = [];
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        requests.push({ url: req.url, headers: req.headers, body: JSON.parse(raw) });
+        reply(res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    const { port } = server.address() as { port: number };
+    provider = defineProvider({ name: 'anthropic', type: 'anthropic', apiKey: 'test-key', baseURL: `http://127.0.0.1:${port}` });
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const json = (body: unknown) => (res: http.ServerResponse) => {
+    res.setHeader('content-type', 'application/json');
+    res.end(JSON.stringify(body));
+  };
+
+  const message = (content: unknown[], stopReason: string) =>
+    json({ id: 'msg_1', type: 'message', role: 'assistant', model: 'claude-sonnet-4-6', content, stop_reason: stopReason, usage: { input_tokens: 12, output_tokens: 5 } });
+
+  it('sends system as a top-level field and tool results as tool_result blocks', async () => {
+    reply = message([{ type: 'text', text: 'Done' }], 'end_turn');
+
+    const response = await provider.chat(
+      [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Weather in Paris?' },
+        { role: 'assistant', content: '', toolCalls: [{ id: 'tu_1', name: 'weather', arguments: { city: 'Paris' } }] },
+        { role: 'tool', content: 'Sunny in Paris', name: 'weather', toolCallId: 'tu_1' },
+      ],
+      {},
+      [weather],
+    );
+
+    const { url, headers, body } = requests[0];
+    expect(url).toBe('/v1/messages');
+    expect(headers['x-api-key']).toBe('test-key');
+    expect(body.model).toBe('claude-sonnet-4-6');
+    expect(body.system).toBe('Be brief.');
+    expect(body.messages).toEqual([
+      { role: 'user', content: [{ type: 'text', text: 'Weather in Paris?' }] },
+      { role: 'assistant', content: [{ type: 'tool_use', id: 'tu_1', name: 'weather', input: { city: 'Paris' } }] },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'tu_1', content: 'Sunny in Paris' }] },
+    ]);
+    expect(body.tools[0]).toMatchObject({ name: 'weather', input_schema: { type: 'object', properties: { city: { type: 'string' } } } });
+    expect(response).toMatchObject({ content: 'Done', finishReason: 'stop', usage: { promptTokens: 12, completionTokens: 5, totalTokens: 17 } });
+  });
+
+  it('returns native tool calls', async () => {
+    reply = message([{ type: 'tool_use', id: 'tu_2', name: 'weather', input: { city: 'Oslo' } }], 'tool_use');
+
+    const response = await provider.chat([{ role: 'user', content: 'Weather in Oslo?' }], {}, [weather]);
+
+    expect(response.toolCalls).toEqual([{ id: 'tu_2', name: 'weather', arguments: { city: 'Oslo' } }]);
+    expect(response.finishReason).toBe('tool_calls');
+  });
+
+  it('flattens tool blocks to text when no tools are sent', async () => {
+    reply = message([{ type: 'text', text: 'Summary' }], 'end_turn');
+
+    await provider.chat(
+      [
+        { role: 'user', content: 'Weather?' },
+        { role: 'assistant', content: '', toolCalls: [{ id: 'tu_1', name: 'weather', arguments: { city: 'Paris' } }] },
+        { role: 'tool', content: 'Sunny', name: 'weather', toolCallId: 'tu_1' },
+      ],
+      {},
+    );
+
+    const { body } = requests[0];
+    expect(body.tools).toBeUndefined();
+    expect(JSON.stringify(body.messages)).not.toMatch(/tool_use|tool_result/);
+    expect(body.messages[2].content[0].text).toBe('Tool weather returned: Sunny');
+  });
+
+  it('sends image parts as base64 or URL sources', async () => {
+    reply = message([{ type: 'text', text: 'A cat' }], 'end_turn');
+
+    await provider.chat(
+      [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+            { type: 'image_url', image_url: { url: 'https://example.com/cat.jpg' } },
+          ],
+        },
+      ],
+      {},
+    );
+
+    expect(requests[0].body.messages[0].content.slice(1)).toEqual([
+      { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } },
+      { type: 'image', source: { type: 'url', url: 'https://example.com/cat.jpg' } },
+    ]);
+  });
+
+  it('streams text, assembled tool calls and a finish chunk', async () => {
+    const events = [
+      { type: 'message_start', message: { id: 'msg_1', type: 'message', role: 'assistant', content: [], model: 'claude-sonnet-4-6', usage: { input_tokens: 20, output_tokens: 1 } } },
+      { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Checking ' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'now.' } },
+      { type: 'content_block_stop', index: 0 },
+      { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'tu_3', name: 'weather', input: {} } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"city":' } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"Rome"}' } },
+      { type: 'content_block_stop', index: 1 },
+      { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 9 } },
+      { type: 'message_stop' },
+    ];
+
+    reply = (res) => {
+      res.setHeader('content-type', 'text/event-stream');
+      res.end(events.map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join(''));
+    };
+
+    const chunks: Array<string | ProviderStreamChunk> = [];
+    for await (const chunk of provider.stream!([{ role: 'user', content: 'Weather in Rome?' }], {}, [weather])) chunks.push(chunk);
+
+    expect(requests[0].body.stream).toBe(true);
+    expect(chunks.filter((c) => typeof c !== 'string' && c.type === 'text').map((c: any) => c.text).join('')).toBe('Checking now.');
+    expect(chunks).toContainEqual({ type: 'tool-call', toolCall: { id: 'tu_3', name: 'weather', arguments: { city: 'Rome' } } });
+    expect(chunks[chunks.length - 1]).toEqual({ type: 'finish', finishReason: 'tool_calls', usage: { promptTokens: 20, completionTokens: 9, totalTokens: 29 } });
+  });
+});
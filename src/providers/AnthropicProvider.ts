@@ -0,0 +1,197 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { BaseProvider } from '../core/entities/Provider';
+import { ToolCallAssembler } from '../protocol/ToolCallAssembler';
+import { ContentPart, getTextContent } from '../types/content';
+import { ModelConfig } from '../types/core';
+import { Provider, ProviderCallOptions, ProviderMessage, ProviderResponse, ProviderStreamChunk, ToolCall } from '../types/provider';
+import { Tool } from '../types/tool';
+import { LazyLoader } from '../utils/system/LazyLoader';
+
+const DEFAULT_MAX_TOKENS = 4096;
+
+const STOP_REASONS: Record<string, ProviderResponse['finishReason']> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  pause_turn: 'stop',
+  max_tokens: 'length',
+  tool_use: 'tool_calls',
+  refusal: 'content_filter',
+};
+
+export class AnthropicProvider extends BaseProvider implements Provider {
+  name = 'anthropic';
+  type = 'anthropic';
+  private client: Anthropic;
+  declare defaultModel?: string;
+  readonly supportsNativeTools = true;
+  readonly supportsVision = true;
+
+  constructor(apiKey: string, defaultModel?: string, baseURL?: string, timeout?: number) {
+    super();
+    const mod = LazyLoader.load<any>('@anthropic-ai/sdk', 'Anthropic');
+    const AnthropicClass = mod.default || mod.Anthropic || mod;
+    // Retries are handled by ZaFlow's retry policy
+    this.client = new AnthropicClass({ apiKey, baseURL, timeout, maxRetries: 0 });
+    this.defaultModel = defaultModel || 'claude-sonnet-4-6';
+  }
+
+  async chat(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[], callOptions?: ProviderCallOptions): Promise<ProviderResponse> {
+    const message = await this.client.messages.create(this.createOptions(messages, config, tools) as any, { signal: callOptions?.signal });
+    const toolCalls: ToolCall[] = [];
+    let content = '';
+
+    for (const block of message.content) {
+      if (block.type === 'text') {
+        content += block.text;
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({ id: block.id, name: block.name, arguments: block.input });
+      }
+    }
+
+    return {
+      content,
+      usage: this.formatUsage(message.usage.input_tokens, message.usage.output_tokens),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      finishReason: STOP_REASONS[message.stop_reason || ''],
+    };
+  }
+
+  async *stream(
+    messages: ProviderMessage[],
+    config: ModelConfig,
+    tools?: Tool[],
+    callOptions?: ProviderCallOptions,
+  ): AsyncIterableIterator<ProviderStreamChunk> {
+    const stream = (await this.client.messages.create({ ...this.createOptions(messages, config, tools), stream: true } as any, { signal: callOptions?.signal })) as any;
+    const assembler = new ToolCallAssembler();
+    let finishReason: ProviderResponse['finishReason'];
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for await (const event of stream) {
+      switch (event.type) {
+        case 'message_start':
+          inputTokens = event.message.usage?.input_tokens || 0;
+          outputTokens = event.message.usage?.output_tokens || 0;
+          break;
+
+        case 'content_block_start':
+          if (event.content_block.type === 'tool_use') {
+            yield* assembler.push([{ index: event.index, id: event.content_block.id, function: { name: event.content_block.name } }]);
+          }
+          break;
+
+        case 'content_block_delta':
+          if (event.delta.type === 'text_delta') {
+            yield { type: 'text', text: event.delta.text };
+          } else if (event.delta.type === 'input_json_delta' && event.delta.partial_json) {
+            yield* assembler.push([{ index: event.index, function: { arguments: event.delta.partial_json } }]);
+          }
+          break;
+
+        case 'message_delta':
+          finishReason = STOP_REASONS[event.delta.stop_reason || ''] ?? finishReason;
+          outputTokens = event.usage?.output_tokens ?? outputTokens;
+          break;
+      }
+    }
+
+    for (const toolCall of assembler.complete()) {
+      yield { type: 'tool-call', toolCall };
+    }
+
+    yield { type: 'finish', finishReason, usage: this.formatUsage(inputTokens, outputTokens) };
+  }
+
+  private createOptions(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[]) {
+    const system = messages
+      .filter((msg) => msg.role === 'system')
+      .map((msg) => getTextContent(msg.content))
+      .join('\n\n');
+
+    const hasTools = tools && tools.length > 0;
+
+    return {
+      model: config.model || this.defaultModel,
+      max_tokens: config.maxTokens || DEFAULT_MAX_TOKENS,
+      messages: this.formatMessages(messages, hasTools),
+      ...(system && { system }),
+      ...(config.temperature !== undefined && { temperature: Math.min(config.temperature, 1) }),
+      ...(config.topP !== undefined && { top_p: config.topP }),
+      ...(config.topK !== undefined && { top_k: config.topK }),
+      ...(config.stopSequences && { stop_sequences: config.stopSequences }),
+      ...(hasTools && {
+          tools: tools.map((tool) => ({ name: tool.name, description: tool.description, input_schema: tool.toJSONSchema() })),
+        }),
+    };
+  }
+
+  /**
+   * Map messages to Anthropic turns: tool results become `tool_result` blocks in a user turn,
+   * and consecutive turns of the same role are merged (all results of one tool_use turn must share a message).
+   * The API rejects tool blocks in requests without tools (e.g. a final summary turn), so those turns are flattened to text.
+   */
+  private formatMessages(messages: ProviderMessage[], toolBlocks: boolean) {
+    const turns: Array<{ role: 'user' | 'assistant'; content: any[] }> = [];
+
+    for (const msg of messages) {
+      if (msg.role === 'system') continue;
+
+      const role = msg.role === 'assistant' ? 'assistant' : 'user';
+      const blocks = msg.role === 'tool' ? [this.formatToolResult(msg, toolBlocks)] : this.formatContent(msg.content);
+
+      if (msg.role === 'assistant' && msg.toolCalls) {
+        blocks.push(
+          ...msg.toolCalls.map((tc) =>
+            toolBlocks
+              ? { type: 'tool_use', id: tc.id, name: tc.name, input: tc.arguments ?? {} }
+              : { type: 'text', text: `Called tool ${tc.name} with ${JSON.stringify(tc.arguments ?? {})}` },
+          ),
+        );
+      }
+
+      if (blocks.length === 0) continue;
+
+      const last = turns[turns.length - 1];
+
+      if (last?.role === role) {
+        last.content.push(...blocks);
+      } else {
+        turns.push({ role, content: blocks });
+      }
+    }
+
+    return turns;
+  }
+
+  private formatToolResult(msg: ProviderMessage, toolBlocks: boolean) {
+    const content = getTextContent(msg.content);
+    return toolBlocks ? { type: 'tool_result', tool_use_id: msg.toolCallId, content } : { type: 'text', text: `Tool ${msg.name || msg.toolCallId} returned: ${content}` };
+  }
+
+  private formatContent(content: string | ContentPart[]): any[] {
+    const parts: ContentPart[] = typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+    const blocks: any[] = [];
+
+    for (const part of parts) {
+      if (part.type === 'text' && part.text) {
+        blocks.push({ type: 'text', text: part.text });
+      } else if (part.type === 'image_url') {
+        blocks.push({ type: 'image', source: this.formatImageSource(part.image_url.url) });
+      } else if (part.type === 'file' && part.file.mimeType === 'application/pdf') {
+        blocks.push({ type: 'document', source: { type: 'base64', media_type: part.file.mimeType, data: part.file.data } });
+      }
+    }
+
+    return blocks;
+  }
+
+  private formatImageSource(url: string) {
+    const dataUrl = /^data:([^;]+);base64,(.*)$/s.exec(url);
+    return dataUrl ? { type: 'base64', media_type: dataUrl[1], data: dataUrl[2] } : { type: 'url', url };
+  }
+
+  private formatUsage(promptTokens: number, completionTokens: number): ProviderResponse['usage'] {
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+}
@@ -0,0 +1,110 @@
+import { BaseProvider } from '../core/entities/Provider';
+import { MessageAdapter } from '../protocol/MessageAdapter';
+import { ToolCallParser } from '../protocol/ToolCallParser';
+import { ModelConfig } from '../types/core';
+import { Provider, ProviderCallOptions, ProviderMessage, ProviderResponse, ProviderStreamChunk, hasNativeTools, hasVision } from '../types/provider';
+import { Tool } from '../types/tool';
+import { estimateRequestTokens } from '../utils/system/RateLimiter';
+
+/**
+ * Base for providers that delegate each request to one of several wrapped providers
+ * Answers are tagged with the provider/model that produced them.
+ */
+export abstract class CompositeProvider extends BaseProvider implements Provider {
+  abstract name: string;
+  abstract type: string;
+
+  constructor(protected providers: Provider[]) {
+    super();
+
+    if (providers.length === 0) {
+      throw new Error('Composite provider requires at least one provider');
+    }
+  }
+
+  /**
+   * Send a chat request to one wrapped provider, adapting messages and tools to its capabilities
+   */
+  protected async chatWith(provider: Provider, messages: ProviderMessage[], config: ModelConfig, tools?: Tool[], callOptions?: ProviderCallOptions): Promise<ProviderResponse> {
+    const textTools = tools && tools.length > 0 && !hasNativeTools(provider, config.model);
+    const adapted = this.adaptMessages(provider, messages, config.model);
+    const chatMessages = textTools ? MessageAdapter.withToolInstructions(adapted, tools) : adapted;
+
+    await provider.rateLimiter?.acquire(estimateRequestTokens(chatMessages, config), callOptions?.signal);
+
+    const response = await provider.chat(chatMessages, this.adaptConfig(provider, config), textTools ? undefined : tools, callOptions);
+
+    if (textTools && (!response.toolCalls || response.toolCalls.length === 0) && ToolCallParser.hasToolCalls(response.content)) {
+      const toolCalls = ToolCallParser.parse(response.content);
+
+      if (toolCalls.length > 0) {
+        response.toolCalls = toolCalls;
+        response.finishReason = 'tool_calls';
+      }
+    }
+
+    return { ...response, provider: response.provider || provider.name, model: response.model || config.model || provider.defaultModel };
+  }
+
+  /**
+   * Stream from one wrapped provider, adapting messages and tools to its capabilities
+   */
+  protected async *streamWith(
+    provider: Provider,
+    messages: ProviderMessage[],
+    config: ModelConfig,
+    tools?: Tool[],
+    callOptions?: ProviderCallOptions,
+  ): AsyncIterableIterator<string | ProviderStreamChunk> {
+    if (!provider.stream) {
+      const response = await this.chatWith(provider, messages, config, tools, callOptions);
+      if (response.content) yield { type: 'text', text: response.content };
+      for (const toolCall of response.toolCalls || []) yield { type: 'tool-call', toolCall };
+      yield { type: 'finish', finishReason: response.finishReason, usage: response.usage, provider: response.provider, model: response.model };
+      return;
+    }
+
+    // Tools arrive natively when the composite reports native support; providers without it get XML instructions instead
+    const textTools = tools && tools.length > 0 && !hasNativeTools(provider, config.model);
+    const adapted = this.adaptMessages(provider, messages, config.model);
+    const streamMessages = textTools ? MessageAdapter.withToolInstructions(adapted, tools) : adapted;
+    const finish = { type: 'finish' as const, provider: provider.name, model: config.model || provider.defaultModel };
+
+    await provider.rateLimiter?.acquire(estimateRequestTokens(streamMessages, config), callOptions?.signal);
+    let content = '';
+    let finished = false;
+
+    for await (const chunk of provider.stream(streamMessages, this.adaptConfig(provider, config), textTools ? undefined : tools, callOptions)) {
+      if (typeof chunk === 'string' || chunk.type === 'text') {
+        content += typeof chunk === 'string' ? chunk : chunk.text;
+        yield chunk;
+      } else if (chunk.type === 'finish') {
+        finished = true;
+
+        for (const toolCall of textTools ? ToolCallParser.parse(content) : []) {
+          yield { type: 'tool-call', toolCall };
+        }
+
+        yield { ...chunk, provider: chunk.provider || finish.provider, model: chunk.model || finish.model };
+      } else {
+        yield chunk;
+      }
+    }
+
+    if (!finished) {
+      for (const toolCall of textTools ? ToolCallParser.parse(content) : []) {
+        yield { type: 'tool-call', toolCall };
+      }
+
+      yield finish;
+    }
+  }
+
+  protected adaptConfig(provider: Provider, config: ModelConfig): ModelConfig {
+    return config.responseFormat === 'json' && !provider.supportsJsonMode ? { ...config, responseFormat: undefined } : config;
+  }
+
+  protected adaptMessages(provider: Provider, messages: ProviderMessage[], model?: string): ProviderMessage[] {
+    return hasVision(provider, model) ? messages : MessageAdapter.omitMedia(messages);
+  }
+}
@@ -1,6 +1,6 @@
 import { BaseProvider } from '../core/entities/Provider';
 import { ModelConfig } from '../types/core';
-import { Provider, ProviderAdapter, ProviderDefinition, ProviderMessage, ProviderResponse } from '../types/provider';
+import { Provider, ProviderAdapter, ProviderCallOptions, ProviderDefinition, ProviderMessage, ProviderResponse, ProviderStreamChunk } from '../types/provider';
 import { Tool } from '../types/tool';
 
 export class CustomProvider extends BaseProvider implements Provider {
@@ -9,6 +9,7 @@ export class CustomProvider extends BaseProvider implements Provider {
   declare defaultModel?: string;
   readonly supportsNativeTools: boolean;
   readonly supportsVision: boolean;
+  readonly supportsJsonMode: boolean;
   private adapter: ProviderAdapter;
 
   constructor(definition: ProviderDefinition) {
@@ -23,13 +24,29 @@ export class CustomProvider extends BaseProvider implements Provider {
     this.adapter = definition.adapter;
     this.supportsNativeTools = definition.supportsNativeTools ?? false;
     this.supportsVision = definition.supportsVision ?? false;
+    this.supportsJsonMode = definition.supportsJsonMode ?? false;
   }
 
-  async chat(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[]): Promise<ProviderResponse> {
-    return await this.adapter(messages, config, tools);
+  async chat(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[], callOptions?: ProviderCallOptions): Promise<ProviderResponse> {
+    return await this.adapter(messages, config, tools, callOptions);
   }
 
-  async *stream(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[]): AsyncIterableIterator<string> {
-    throw new Error('Streaming is not supported for custom providers.');
+  async *stream(
+    messages: ProviderMessage[],
+    config: ModelConfig,
+    tools?: Tool[],
+    callOptions?: ProviderCallOptions,
+  ): AsyncIterableIterator<ProviderStreamChunk> {
+    const response = await this.adapter(messages, config, tools, callOptions);
+
+    if (response.content) {
+      yield { type: 'text', text: response.content };
+    }
+
+    for (const toolCall of response.toolCalls || []) {
+      yield { type: 'tool-call', toolCall };
+    }
+
+    yield { type: 'finish', finishReason: response.finishReason, usage: response.usage };
   }
 }
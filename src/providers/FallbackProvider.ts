@@ -0,0 +1,83 @@
+import { ModelConfig } from '../types/core';
+import { ErrorClass } from '../types/optimization';
+import { FallbackProviderDefinition, Provider, ProviderCallOptions, ProviderMessage, ProviderResponse, ProviderStreamChunk } from '../types/provider';
+import { Tool } from '../types/tool';
+import { isAbortError } from '../utils/system/abort';
+import { classifyError } from '../utils/system/retry';
+import { CompositeProvider } from './CompositeProvider';
+
+const DEFAULT_FALLBACK_ON: ErrorClass[] = ['rate_limit', 'server', 'network', 'timeout'];
+
+/**
+ * Composite provider that tries an ordered list of providers until one answers
+ * Capability flags reflect the primary provider; messages and tools are adapted to each fallback's capabilities.
+ */
+export class FallbackProvider extends CompositeProvider {
+  name: string;
+  type = 'fallback';
+  private fallbackOn: ErrorClass[] | ((error: Error) => boolean);
+
+  constructor(definition: FallbackProviderDefinition) {
+    super(definition.providers);
+    this.name = definition.name || definition.providers.map((p) => p.name).join('|');
+    this.fallbackOn = definition.fallbackOn || DEFAULT_FALLBACK_ON;
+    this.defaultModel = this.providers[0].defaultModel;
+  }
+
+  get supportsNativeTools(): boolean {
+    return this.providers[0].supportsNativeTools ?? false;
+  }
+
+  get supportsVision(): boolean {
+    return this.providers[0].supportsVision ?? false;
+  }
+
+  get supportsJsonMode(): boolean {
+    return this.providers[0].supportsJsonMode ?? false;
+  }
+
+  async chat(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[], callOptions?: ProviderCallOptions): Promise<ProviderResponse> {
+    return this.attempt((provider) => this.chatWith(provider, messages, this.configFor(provider, config), tools, callOptions));
+  }
+
+  async *stream(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[], callOptions?: ProviderCallOptions): AsyncIterableIterator<string | ProviderStreamChunk> {
+    // Fall back only until the first chunk arrives; after that, output has already been consumed
+    const opened = await this.attempt(async (provider) => {
+      const iterator = this.streamWith(provider, messages, this.configFor(provider, config), tools, callOptions);
+      return { iterator, first: await iterator.next() };
+    });
+
+    for (let next = opened.first; !next.done; next = await opened.iterator.next()) {
+      yield next.value;
+    }
+  }
+
+  private async attempt<T>(call: (provider: Provider) => Promise<T>): Promise<T> {
+    let lastError: Error | undefined;
+
+    for (const provider of this.providers) {
+      try {
+        return await call(provider);
+      } catch (error) {
+        lastError = error as Error;
+
+        if (isAbortError(error) || !this.shouldFallback(lastError)) {
+          throw error;
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * A per-call model names a model of the primary provider; fallbacks use their own default model
+   */
+  private configFor(provider: Provider, config: ModelConfig): ModelConfig {
+    return provider === this.providers[0] || !config.model ? config : { ...config, model: undefined };
+  }
+
+  private shouldFallback(error: Error): boolean {
+    return typeof this.fallbackOn === 'function' ? this.fallbackOn(error) : this.fallbackOn.includes(classifyError(error));
+  }
+}
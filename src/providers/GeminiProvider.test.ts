@@ -0,0 +1,136 @@
+import http from 'node:http';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { defineProvider, defineTool } from '../helpers';
+import type { Provider, ProviderStreamChunk } from '../types/provider';
+
+interface RecordedRequest {
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+const weather = defineTool({
+  name: 'weather',
+  description: 'Current weather for a city',
+  schema: z.object({ city: z.string() }),
+  execute: async ({ city }) => `Sunny in ${city}`,
+});
+
+const candidate = (parts: unknown[], finishReason = 'STOP') => ({
+  candidates: [{ content: { role: 'model', parts }, finishReason }],
+  usageMetadata: { promptTokenCount: 9, candidatesTokenCount: 3, totalTokenCount: 12 },
+});
+
+describe('GeminiProvider', () => {
+  let server: http.Server;
+  let requests: RecordedRequest[];
+  let reply: (res: http.ServerResponse) => void;
+  let provider: Provider;
+
+  const json = (body: unknown) => (res: http.ServerResponse) => {
+    res.setHeader('content-type', 'application/json');
+    res.end(JSON.stringify(body));
+  };
+
+  beforeEach(async () => {
+    requests = [];
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        requests.push({ url: req.url, headers: req.headers, body: JSON.parse(raw) });
+        reply(res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    const { port } = server.address() as { port: number };
+    provider = defineProvider({ name: 'gemini', type: 'gemini', apiKey: 'test-key', baseURL: `http://127.0.0.1:${port}` });
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('maps messages to contents and tools to function declarations', async () => {
+    reply = json(candidate([{ text: 'Done' }]));
+
+    const response = await provider.chat(
+      [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Weather in Paris?' },
+        { role: 'assistant', content: '', toolCalls: [{ id: 'c1', name: 'weather', arguments: { city: 'Paris' } }] },
+        { role: 'tool', content: 'Sunny in Paris', toolCallId: 'c1' },
+      ],
+      {},
+      [weather],
+    );
+
+    const { url, headers, body } = requests[0];
+    expect(url).toMatch(/\/models\/gemini-2\.5-flash:generateContent$/);
+    expect(headers['x-goog-api-key']).toBe('test-key');
+    expect(body.systemInstruction).toMatchObject({ parts: [{ text: 'Be brief.' }] });
+    expect(body.contents).toEqual([
+      { role: 'user', parts: [{ text: 'Weather in Paris?' }] },
+      { role: 'model', parts: [{ functionCall: { id: 'c1', name: 'weather', args: { city: 'Paris' } } }] },
+      // The tool name is recovered from the assistant's call when the result does not carry it
+      { role: 'user', parts: [{ functionResponse: { id: 'c1', name: 'weather', response: { output: 'Sunny in Paris' } } }] },
+    ]);
+    expect(body.tools[0].functionDeclarations[0]).toMatchObject({ name: 'weather', parametersJsonSchema: { type: 'object', properties: { city: { type: 'string' } } } });
+    expect(response).toMatchObject({ content: 'Done', finishReason: 'stop', usage: { promptTokens: 9, completionTokens: 3, totalTokens: 12 } });
+  });
+
+  it('returns function calls as tool calls', async () => {
+    reply = json(candidate([{ functionCall: { name: 'weather', args: { city: 'Oslo' } } }]));
+
+    const response = await provider.chat([{ role: 'user', content: 'Weather in Oslo?' }], {}, [weather]);
+
+    expect(response.finishReason).toBe('tool_calls');
+    expect(response.toolCalls).toEqual([{ id: expect.any(String), name: 'weather', arguments: { city: 'Oslo' } }]);
+  });
+
+  it('sends image, audio and file parts inline', async () => {
+    reply = json(candidate([{ text: 'ok' }]));
+
+    await provider.chat(
+      [
+        {
+          role: 'user',
+          content: [
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+            { type: 'audio', audio: { data: 'BBBB', format: 'wav' } },
+            { type: 'file', file: { data: 'CCCC', mimeType: 'application/pdf' } },
+          ],
+        },
+      ],
+      {},
+    );
+
+    expect(requests[0].body.contents[0].parts).toEqual([
+      { inlineData: { mimeType: 'image/png', data: 'AAAA' } },
+      { inlineData: { mimeType: 'audio/wav', data: 'BBBB' } },
+      { inlineData: { mimeType: 'application/pdf', data: 'CCCC' } },
+    ]);
+  });
+
+  it('streams text, function calls and a finish chunk', async () => {
+    const chunks = [candidate([{ text: 'Checking ' }], undefined), candidate([{ text: 'now.' }, { functionCall: { id: 'c2', name: 'weather', args: { city: 'Rome' } } }])];
+
+    reply = (res) => {
+      res.setHeader('content-type', 'text/event-stream');
+      res.end(chunks.map((c) => `data: ${JSON.stringify(c)}\r\n\r\n`).join(''));
+    };
+
+    const received: Array<string | ProviderStreamChunk> = [];
+    for await (const c of provider.stream!([{ role: 'user', content: 'Weather in Rome?' }], {}, [weather])) received.push(c);
+
+    expect(requests[0].url).toMatch(/:streamGenerateContent\?alt=sse$/);
+    expect(received).toEqual([
+      { type: 'text', text: 'Checking ' },
+      { type: 'text', text: 'now.' },
+      { type: 'tool-call', toolCall: { id: 'c2', name: 'weather', arguments: { city: 'Rome' } } },
+      { type: 'finish', finishReason: 'tool_calls', usage: { promptTokens: 9, completionTokens: 3, totalTokens: 12 } },
+    ]);
+  });
+});
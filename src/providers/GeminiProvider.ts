@@ -0,0 +1,222 @@
+import type { GoogleGenAI } from '@google/genai';
+import { BaseProvider } from '../core/entities/Provider';
+import { ContentPart, getTextContent } from '../types/content';
+import { ModelConfig } from '../types/core';
+import { Provider, ProviderCallOptions, ProviderMessage, ProviderResponse, ProviderStreamChunk, ToolCall } from '../types/provider';
+import { Tool } from '../types/tool';
+import { generateToolCallId } from '../utils/system/id';
+import { LazyLoader } from '../utils/system/LazyLoader';
+
+const FINISH_REASONS: Record<string, ProviderResponse['finishReason']> = {
+  STOP: 'stop',
+  MAX_TOKENS: 'length',
+  SAFETY: 'content_filter',
+  RECITATION: 'content_filter',
+  BLOCKLIST: 'content_filter',
+  PROHIBITED_CONTENT: 'content_filter',
+  SPII: 'content_filter',
+  IMAGE_SAFETY: 'content_filter',
+};
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  heic: 'image/heic',
+};
+
+export class GeminiProvider extends BaseProvider implements Provider {
+  name = 'gemini';
+  type = 'gemini';
+  private client: GoogleGenAI;
+  declare defaultModel?: string;
+  readonly supportsNativeTools = true;
+  readonly supportsVision = true;
+  readonly supportsJsonMode = true;
+
+  constructor(apiKey: string, defaultModel?: string, baseURL?: string, timeout?: number) {
+    super();
+    const mod = LazyLoader.load<any>('@google/genai', 'Gemini');
+    const GoogleGenAIClass = mod.GoogleGenAI || mod.default?.GoogleGenAI || mod.default;
+    this.client = new GoogleGenAIClass({ apiKey, httpOptions: { baseUrl: baseURL, timeout } });
+    this.defaultModel = defaultModel || 'gemini-2.5-flash';
+  }
+
+  async chat(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[], callOptions?: ProviderCallOptions): Promise<ProviderResponse> {
+    const response = await this.client.models.generateContent(this.createRequest(messages, config, tools, callOptions) as any);
+    const candidate = response.candidates?.[0];
+    const toolCalls: ToolCall[] = [];
+    let content = '';
+
+    for (const part of candidate?.content?.parts || []) {
+      if (part.text && !part.thought) {
+        content += part.text;
+      } else if (part.functionCall) {
+        toolCalls.push(this.toToolCall(part.functionCall));
+      }
+    }
+
+    return {
+      content,
+      usage: this.formatUsage(response.usageMetadata),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      finishReason: toolCalls.length > 0 ? 'tool_calls' : FINISH_REASONS[candidate?.finishReason || ''],
+    };
+  }
+
+  async *stream(
+    messages: ProviderMessage[],
+    config: ModelConfig,
+    tools?: Tool[],
+    callOptions?: ProviderCallOptions,
+  ): AsyncIterableIterator<ProviderStreamChunk> {
+    const stream = await this.client.models.generateContentStream(this.createRequest(messages, config, tools, callOptions) as any);
+    let finishReason: ProviderResponse['finishReason'];
+    let usage: ProviderResponse['usage'];
+    let hasToolCalls = false;
+
+    for await (const chunk of stream) {
+      const candidate = chunk.candidates?.[0];
+
+      for (const part of candidate?.content?.parts || []) {
+        if (part.text && !part.thought) {
+          yield { type: 'text', text: part.text };
+        } else if (part.functionCall) {
+          // Gemini streams function calls whole rather than as argument fragments
+          hasToolCalls = true;
+          yield { type: 'tool-call', toolCall: this.toToolCall(part.functionCall) };
+        }
+      }
+
+      if (candidate?.finishReason) {
+        finishReason = FINISH_REASONS[candidate.finishReason];
+      }
+
+      if (chunk.usageMetadata) {
+        usage = this.formatUsage(chunk.usageMetadata);
+      }
+    }
+
+    yield { type: 'finish', finishReason: hasToolCalls ? 'tool_calls' : finishReason, usage };
+  }
+
+  private createRequest(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[], callOptions?: ProviderCallOptions) {
+    const systemInstruction = messages
+      .filter((msg) => msg.role === 'system')
+      .map((msg) => getTextContent(msg.content))
+      .join('\n\n');
+
+    return {
+      model: config.model || this.defaultModel,
+      contents: this.formatMessages(messages),
+      config: {
+        abortSignal: callOptions?.signal,
+        temperature: config.temperature,
+        maxOutputTokens: config.maxTokens,
+        topP: config.topP,
+        topK: config.topK,
+        frequencyPenalty: config.frequencyPenalty,
+        presencePenalty: config.presencePenalty,
+        stopSequences: config.stopSequences,
+        ...(systemInstruction && { systemInstruction }),
+        ...(config.responseFormat === 'json' && { responseMimeType: 'application/json' }),
+        ...(tools &&
+          tools.length > 0 && {
+            tools: [
+              {
+                functionDeclarations: tools.map((tool) => ({
+                  name: tool.name,
+                  description: tool.description,
+                  parametersJsonSchema: tool.toJSONSchema(),
+                })),
+              },
+            ],
+          }),
+      },
+    };
+  }
+
+  /**
+   * Map messages to Gemini contents: assistant turns use the 'model' role, tool results become
+   * `functionResponse` parts, and consecutive turns of the same role are merged
+   */
+  private formatMessages(messages: ProviderMessage[]) {
+    const contents: Array<{ role: 'user' | 'model'; parts: any[] }> = [];
+    const toolNames = new Map<string, string>();
+
+    for (const msg of messages) {
+      if (msg.role === 'system') continue;
+
+      const role = msg.role === 'assistant' ? 'model' : 'user';
+      let parts: any[];
+
+      if (msg.role === 'tool') {
+        const name = msg.name || toolNames.get(msg.toolCallId || '') || 'tool';
+        parts = [{ functionResponse: { id: msg.toolCallId, name, response: { output: getTextContent(msg.content) } } }];
+      } else {
+        parts = this.formatContent(msg.content);
+      }
+
+      for (const tc of (msg.role === 'assistant' && msg.toolCalls) || []) {
+        toolNames.set(tc.id, tc.name);
+        parts.push({ functionCall: { id: tc.id, name: tc.name, args: tc.arguments ?? {} } });
+      }
+
+      if (parts.length === 0) continue;
+
+      const last = contents[contents.length - 1];
+
+      if (last?.role === role) {
+        last.parts.push(...parts);
+      } else {
+        contents.push({ role, parts });
+      }
+    }
+
+    return contents;
+  }
+
+  private formatContent(content: string | ContentPart[]): any[] {
+    const parts: ContentPart[] = typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+
+    return parts
+      .map((part) => {
+        switch (part.type) {
+          case 'text':
+            return part.text ? { text: part.text } : undefined;
+          case 'image_url':
+            return this.formatImage(part.image_url.url);
+          case 'audio':
+            return { inlineData: { mimeType: `audio/${part.audio.format || 'mp3'}`, data: part.audio.data } };
+          case 'file':
+            return { inlineData: { mimeType: part.file.mimeType, data: part.file.data } };
+        }
+      })
+      .filter(Boolean);
+  }
+
+  private formatImage(url: string) {
+    const dataUrl = /^data:([^;]+);base64,(.*)$/s.exec(url);
+
+    if (dataUrl) {
+      return { inlineData: { mimeType: dataUrl[1], data: dataUrl[2] } };
+    }
+
+    const extension = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase() || '';
+    return { fileData: { fileUri: url, mimeType: IMAGE_MIME_TYPES[extension] || 'image/jpeg' } };
+  }
+
+  private toToolCall(functionCall: { id?: string; name?: string; args?: Record<string, unknown> }): ToolCall {
+    return { id: functionCall.id || generateToolCallId(), name: functionCall.name || '', arguments: functionCall.args || {} };
+  }
+
+  private formatUsage(usage?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number }): ProviderResponse['usage'] {
+    if (!usage) return undefined;
+
+    const promptTokens = usage.promptTokenCount || 0;
+    const completionTokens = usage.candidatesTokenCount || 0;
+    return { promptTokens, completionTokens, totalTokens: usage.totalTokenCount || promptTokens + completionTokens };
+  }
+}
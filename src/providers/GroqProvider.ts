@@ -1,10 +1,11 @@
 import type Groq from 'groq-sdk';
 import { BaseProvider } from '../core/entities/Provider';
 import { ResponseFormatter } from '../protocol/ResponseFormatter';
+import { ToolCallAssembler } from '../protocol/ToolCallAssembler';
 import { ToolCallParser } from '../protocol/ToolCallParser';
 import { getTextContent } from '../types/content';
 import { ModelConfig } from '../types/core';
-import { Provider, ProviderMessage, ProviderResponse } from '../types/provider';
+import { Provider, ProviderCallOptions, ProviderMessage, ProviderResponse, ProviderStreamChunk } from '../types/provider';
 import { Tool } from '../types/tool';
 import { LazyLoader } from '../utils/system/LazyLoader';
 
@@ -14,6 +15,7 @@ export class GroqProvider extends BaseProvider implements Provider {
   private client: Groq;
   declare defaultModel?: string;
   readonly supportsNativeTools = true;
+  readonly supportsJsonMode = true;
 
   private static NATIVE_TOOL_CALLING_MODELS = [
     'llama-3.1-70b-versatile',
@@ -28,32 +30,18 @@ export class GroqProvider extends BaseProvider implements Provider {
     super();
     const mod = LazyLoader.load<any>('groq-sdk', 'Groq');
     const GroqClass = mod.default || mod.Groq || mod;
-    this.client = new GroqClass({ apiKey });
+    // Retries are handled by ZaFlow's retry policy
+    this.client = new GroqClass({ apiKey, maxRetries: 0 });
     this.defaultModel = defaultModel || 'moonshotai/kimi-k2-instruct-0905';
   }
 
-  async chat(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[]): Promise<ProviderResponse> {
-    const supportsNative = this.supportsNativeToolCalling();
+  async chat(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[], callOptions?: ProviderCallOptions): Promise<ProviderResponse> {
+    const supportsNative = this.supportsNativeToolCalling(config.model || this.defaultModel);
 
-    let groqMessages = messages.map((msg) => ({
-      role: msg.role === 'tool' ? ('tool' as const) : msg.role,
-      content: msg.role === 'system' || msg.role === 'tool' ? getTextContent(msg.content) : msg.content,
-      ...(msg.name && { name: msg.name }),
-      ...(msg.toolCallId && { tool_call_id: msg.toolCallId }),
-      ...(msg.toolCalls && {
-        tool_calls: msg.toolCalls.map((tc) => ({
-          id: tc.id,
-          type: 'function' as const,
-          function: {
-            name: tc.name,
-            arguments: JSON.stringify(tc.arguments),
-          },
-        })),
-      }),
-    }));
+    const groqMessages = this.formatMessages(messages);
 
     const options: any = {
-      model: this.defaultModel,
+      model: config.model || this.defaultModel,
       messages: groqMessages,
       temperature: config.temperature,
       max_tokens: config.maxTokens,
@@ -61,36 +49,18 @@ export class GroqProvider extends BaseProvider implements Provider {
       frequency_penalty: config.frequencyPenalty,
       presence_penalty: config.presencePenalty,
       stop: config.stopSequences,
+      ...(config.responseFormat === 'json' && { response_format: { type: 'json_object' } }),
     };
 
     if (tools && tools.length > 0) {
       if (supportsNative) {
         options.tools = ResponseFormatter.formatToolsAsJSON(tools);
       } else {
-        const toolInstructions = ResponseFormatter.generateToolInstructions(tools, 'xml');
-        const enforcement = `\n\n${toolInstructions}\n\nUse the XML tool_call format if tool usage is required.`;
-
-        if (groqMessages[0]?.role === 'system') {
-          groqMessages[0] = {
-            ...groqMessages[0],
-            content: `${groqMessages[0].content}${enforcement}`,
-          };
-        } else {
-          groqMessages = [
-            {
-              role: 'system',
-              content: enforcement,
-              tool_calls: [],
-              tool_call_id: '',
-              name: '',
-            },
-            ...groqMessages,
-          ];
-        }
+        options.messages = this.withToolInstructions(groqMessages, tools);
       }
     }
 
-    const completion = await this.client.chat.completions.create(options);
+    const completion = await this.client.chat.completions.create(options, { signal: callOptions?.signal });
     const choice = completion.choices[0];
     const message = choice.message;
 
@@ -120,38 +90,106 @@ export class GroqProvider extends BaseProvider implements Provider {
     };
   }
 
-  async *stream(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[]): AsyncIterableIterator<string> {
-    const groqMessages = messages.map((msg) => ({
-      role: msg.role === 'tool' ? ('tool' as const) : msg.role,
-      content: msg.role === 'system' || msg.role === 'tool' ? getTextContent(msg.content) : msg.content,
-      ...(msg.name && { name: msg.name }),
-      ...(msg.toolCallId && { tool_call_id: msg.toolCallId }),
-    }));
+  async *stream(
+    messages: ProviderMessage[],
+    config: ModelConfig,
+    tools?: Tool[],
+    callOptions?: ProviderCallOptions,
+  ): AsyncIterableIterator<ProviderStreamChunk> {
+    const supportsNative = this.supportsNativeToolCalling(config.model || this.defaultModel);
+    const hasTools = tools && tools.length > 0;
+    const groqMessages = this.formatMessages(messages);
 
     const options = {
-      model: this.defaultModel,
-      messages: groqMessages,
+      model: config.model || this.defaultModel,
+      messages: hasTools && !supportsNative ? this.withToolInstructions(groqMessages, tools) : groqMessages,
       temperature: config.temperature,
       max_tokens: config.maxTokens,
       stream: true as const,
-      ...(tools &&
-        tools.length > 0 && {
+      ...(hasTools &&
+        supportsNative && {
           tools: ResponseFormatter.formatToolsAsJSON(tools),
         }),
     };
 
-    const stream = (await this.client.chat.completions.create(options as any)) as any;
+    const stream = (await this.client.chat.completions.create(options as any, { signal: callOptions?.signal })) as any;
+    const assembler = new ToolCallAssembler();
+    let content = '';
+    let finishReason: ProviderResponse['finishReason'];
+    let usage: ProviderResponse['usage'];
 
     for await (const chunk of stream) {
-      const delta = chunk.choices[0]?.delta;
+      const choice = chunk.choices[0];
+      const delta = choice?.delta;
+
       if (delta?.content) {
-        yield delta.content;
+        content += delta.content;
+        yield { type: 'text', text: delta.content };
+      }
+
+      if (delta?.tool_calls) {
+        yield* assembler.push(delta.tool_calls);
+      }
+
+      if (choice?.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+
+      const chunkUsage = chunk.usage || chunk.x_groq?.usage;
+      if (chunkUsage) {
+        usage = {
+          promptTokens: chunkUsage.prompt_tokens,
+          completionTokens: chunkUsage.completion_tokens,
+          totalTokens: chunkUsage.total_tokens,
+        };
       }
     }
+
+    let toolCalls = assembler.complete();
+
+    if (toolCalls.length === 0 && hasTools && ToolCallParser.hasToolCalls(content)) {
+      toolCalls = ToolCallParser.parse(content);
+    }
+
+    for (const toolCall of toolCalls) {
+      yield { type: 'tool-call', toolCall };
+    }
+
+    yield { type: 'finish', finishReason: toolCalls.length > 0 ? 'tool_calls' : finishReason, usage };
+  }
+
+  private formatMessages(messages: ProviderMessage[]) {
+    return messages.map((msg) => ({
+      role: msg.role === 'tool' ? ('tool' as const) : msg.role,
+      content: msg.role === 'system' || msg.role === 'tool' ? getTextContent(msg.content) : msg.content,
+      ...(msg.name && { name: msg.name }),
+      ...(msg.toolCallId && { tool_call_id: msg.toolCallId }),
+      ...(msg.toolCalls && {
+        tool_calls: msg.toolCalls.map((tc) => ({
+          id: tc.id,
+          type: 'function' as const,
+          function: {
+            name: tc.name,
+            arguments: JSON.stringify(tc.arguments),
+          },
+        })),
+      }),
+    }));
+  }
+
+  private withToolInstructions(groqMessages: ReturnType<GroqProvider['formatMessages']>, tools: Tool[]) {
+    const toolInstructions = ResponseFormatter.generateToolInstructions(tools, 'xml');
+    const enforcement = `\n\n${toolInstructions}\n\nUse the XML tool_call format if tool usage is required.`;
+
+    if (groqMessages[0]?.role === 'system') {
+      return [{ ...groqMessages[0], content: `${groqMessages[0].content}${enforcement}` }, ...groqMessages.slice(1)];
+    }
+
+    return [{ role: 'system' as const, content: enforcement }, ...groqMessages];
   }
 
-  private supportsNativeToolCalling(): boolean {
-    if (!this.defaultModel) return false;
-    return GroqProvider.NATIVE_TOOL_CALLING_MODELS.some((model) => this.defaultModel?.includes(model));
+  private supportsNativeToolCalling(model = this.defaultModel): boolean {
+    if (!model) return false;
+    return GroqProvider.NATIVE_TOOL_CALLING_MODELS.some((nativeModel) => model.includes(nativeModel));
   }
 }
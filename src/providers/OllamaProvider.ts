@@ -1,71 +1,151 @@
+import { promises as fs } from 'fs';
 import { Ollama } from 'ollama';
+import { fileURLToPath } from 'url';
 import { BaseProvider } from '../core/entities/Provider';
+import { MessageAdapter } from '../protocol/MessageAdapter';
+import { ResponseFormatter } from '../protocol/ResponseFormatter';
 import { ToolCallParser } from '../protocol/ToolCallParser';
-import { getTextContent } from '../types/content';
+import { ContentPart, ImagePart, getTextContent } from '../types/content';
 import { ModelConfig } from '../types/core';
-import { Provider, ProviderMessage, ProviderResponse } from '../types/provider';
+import { Provider, ProviderCallOptions, ProviderMessage, ProviderResponse, ProviderStreamChunk, ToolCall } from '../types/provider';
 import { Tool } from '../types/tool';
+import { abortable, throwIfAborted } from '../utils/system/abort';
+import { generateToolCallId } from '../utils/system/id';
 import { LazyLoader } from '../utils/system/LazyLoader';
 
+const DONE_REASONS: Record<string, ProviderResponse['finishReason']> = {
+  stop: 'stop',
+  length: 'length',
+};
+
+export interface OllamaProviderOptions {
+  /** Force native tool calling on or off instead of detecting it from the model name */
+  supportsNativeTools?: boolean;
+  /** Force image input on or off instead of detecting it from the model name */
+  supportsVision?: boolean;
+}
+
 export class OllamaProvider extends BaseProvider implements Provider {
   name = 'ollama';
   type = 'ollama';
-  private client: Ollama;
+  private OllamaClass: typeof Ollama;
+  private host: string;
   declare defaultModel?: string;
-  readonly supportsNativeTools = false;
+  readonly supportsJsonMode = true;
+  private options: OllamaProviderOptions;
+  /** Converted images by part, so history images are not re-fetched on every turn */
+  private imageCache = new WeakMap<ImagePart, Promise<string>>();
+
+  private static NATIVE_TOOL_CALLING_MODELS = [
+    'llama3.1',
+    'llama3.2',
+    'llama3.3',
+    'llama4',
+    'qwen2.5',
+    'qwen3',
+    'mistral',
+    'mixtral',
+    'command-r',
+    'firefunction',
+    'hermes3',
+    'granite3',
+    'gpt-oss',
+  ];
 
-  constructor(baseURL: string = 'http://localhost:11434', defaultModel?: string) {
+  private static VISION_MODELS = [
+    'llava',
+    'bakllava',
+    'llama3.2-vision',
+    'llama4',
+    'qwen2.5vl',
+    'qwen3-vl',
+    'minicpm-v',
+    'moondream',
+    'gemma3',
+    'granite3.2-vision',
+    'mistral-small3.1',
+  ];
+
+  constructor(baseURL: string = 'http://localhost:11434', defaultModel?: string, options: OllamaProviderOptions = {}) {
     super();
     const mod = LazyLoader.load<any>('ollama', 'Ollama');
-    const OllamaClass = mod.Ollama || mod.default?.Ollama || mod.default || mod;
-    this.client = new OllamaClass({ host: baseURL });
+    this.OllamaClass = mod.Ollama || mod.default?.Ollama || mod.default || mod;
+    this.host = baseURL;
     this.defaultModel = defaultModel || 'llama3.1:8b';
+    this.options = options;
   }
 
-  async chat(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[]): Promise<ProviderResponse> {
-    const ollamaMessages = messages.map((msg) => ({
-      role: (msg.role === 'tool' ? 'user' : msg.role) as any,
-      content: msg.role === 'tool' ? `Tool result: ${getTextContent(msg.content)}` : getTextContent(msg.content),
-    }));
+  get supportsNativeTools(): boolean {
+    return this.supportsNativeToolsFor();
+  }
 
-    const response = await this.client.chat({
-      model: this.defaultModel!,
-      messages: ollamaMessages,
-      options: {
-        temperature: config.temperature,
-        num_predict: config.maxTokens,
-        top_p: config.topP,
-        top_k: config.topK,
-        stop: config.stopSequences,
-      },
-    });
+  get supportsVision(): boolean {
+    return this.supportsVisionFor();
+  }
+
+  supportsNativeToolsFor(model: string = this.defaultModel): boolean {
+    return this.options.supportsNativeTools ?? this.matchesModel(OllamaProvider.NATIVE_TOOL_CALLING_MODELS, model);
+  }
+
+  supportsVisionFor(model: string = this.defaultModel): boolean {
+    return this.options.supportsVision ?? this.matchesModel(OllamaProvider.VISION_MODELS, model);
+  }
+
+  async chat(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[], callOptions?: ProviderCallOptions): Promise<ProviderResponse> {
+    const hasTools = tools && tools.length > 0;
+    const model = config.model || this.defaultModel!;
+    const native = this.supportsNativeToolsFor(model);
+    const chatMessages = hasTools && !native ? MessageAdapter.withToolInstructions(messages, tools) : messages;
+    const ollamaMessages = await this.formatMessages(chatMessages, native, this.supportsVisionFor(model), callOptions?.signal);
+
+    const response = await abortable(
+      this.clientFor(callOptions?.signal).chat({
+        model,
+        messages: ollamaMessages,
+        format: config.responseFormat === 'json' ? 'json' : undefined,
+        ...(hasTools && native && { tools: ResponseFormatter.formatToolsAsJSON(tools) }),
+        options: {
+          temperature: config.temperature,
+          num_predict: config.maxTokens,
+          top_p: config.topP,
+          top_k: config.topK,
+          stop: config.stopSequences,
+        },
+      }),
+      callOptions?.signal,
+    );
 
     const content = response.message.content;
-    const toolCalls = ToolCallParser.parse(content);
-    const estimatedPromptTokens = ollamaMessages.reduce((sum, msg) => sum + Math.ceil(msg.content.length / 4), 0);
-    const estimatedCompletionTokens = Math.ceil(content.length / 4);
+    let toolCalls = this.toToolCalls(response.message.tool_calls);
+
+    // Models without (working) native support may still answer with text tool calls
+    if (toolCalls.length === 0) {
+      toolCalls = ToolCallParser.parse(content);
+    }
 
     return {
       content,
-      usage: {
-        promptTokens: estimatedPromptTokens,
-        completionTokens: estimatedCompletionTokens,
-        totalTokens: estimatedPromptTokens + estimatedCompletionTokens,
-      },
+      usage: this.formatUsage(response),
       toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
-      finishReason: response.done ? 'stop' : 'length',
+      finishReason: toolCalls.length > 0 ? 'tool_calls' : DONE_REASONS[response.done_reason],
     };
   }
 
-  async *stream(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[]): AsyncIterableIterator<string> {
-    const ollamaMessages = messages.map((msg) => ({
-      role: (msg.role === 'tool' ? 'user' : msg.role) as any,
-      content: msg.role === 'tool' ? `Tool result: ${getTextContent(msg.content)}` : getTextContent(msg.content),
-    }));
+  async *stream(
+    messages: ProviderMessage[],
+    config: ModelConfig,
+    tools?: Tool[],
+    callOptions?: ProviderCallOptions,
+  ): AsyncIterableIterator<string | ProviderStreamChunk> {
+    const model = config.model || this.defaultModel!;
+    const hasTools = tools && tools.length > 0;
+    const native = this.supportsNativeToolsFor(model);
+    const streamMessages = hasTools && !native ? MessageAdapter.withToolInstructions(messages, tools) : messages;
 
-    const stream = await this.client.chat({
-      model: this.defaultModel!,
-      messages: ollamaMessages,
+    const stream = await this.clientFor(callOptions?.signal).chat({
+      model,
+      messages: await this.formatMessages(streamMessages, native, this.supportsVisionFor(model), callOptions?.signal),
+      ...(hasTools && native && { tools: ResponseFormatter.formatToolsAsJSON(tools) }),
       options: {
         temperature: config.temperature,
         num_predict: config.maxTokens,
@@ -73,10 +153,144 @@ export class OllamaProvider extends BaseProvider implements Provider {
       stream: true,
     });
 
-    for await (const chunk of stream) {
-      if (chunk.message?.content) {
-        yield chunk.message.content;
+    const onAbort = () => stream.abort();
+    callOptions?.signal?.addEventListener('abort', onAbort, { once: true });
+    let hasToolCalls = false;
+    let finish: ProviderStreamChunk | undefined;
+
+    try {
+      for await (const chunk of stream) {
+        if (chunk.message?.content) {
+          yield chunk.message.content;
+        }
+
+        // Ollama sends native tool calls whole, not as argument fragments
+        for (const toolCall of this.toToolCalls(chunk.message?.tool_calls)) {
+          hasToolCalls = true;
+          yield { type: 'tool-call', toolCall };
+        }
+
+        // Counts and the stop reason arrive on the final chunk
+        if (chunk.done) {
+          finish = { type: 'finish', finishReason: DONE_REASONS[chunk.done_reason], usage: this.formatUsage(chunk) };
+        }
+      }
+    } finally {
+      callOptions?.signal?.removeEventListener('abort', onAbort);
+    }
+
+    throwIfAborted(callOptions?.signal);
+
+    if (finish?.type === 'finish') {
+      yield { ...finish, finishReason: hasToolCalls ? 'tool_calls' : finish.finishReason };
+    }
+  }
+
+  /**
+   * The SDK takes no per-request signal, so each request gets a client whose fetch is bound to the caller's signal
+   * (aborting stops generation on the server, not just our wait for it)
+   */
+  private clientFor(signal?: AbortSignal): Ollama {
+    if (!signal) {
+      return new this.OllamaClass({ host: this.host });
+    }
+
+    return new this.OllamaClass({
+      host: this.host,
+      fetch: (input, init) => fetch(input, { ...init, signal: init?.signal ? AbortSignal.any([init.signal, signal]) : signal }),
+    });
+  }
+
+  private async formatMessages(messages: ProviderMessage[], native: boolean, vision: boolean, signal?: AbortSignal) {
+    return Promise.all(
+      messages.map(async (msg) => {
+        const images = vision ? await this.loadImages(msg.content, signal) : [];
+
+        if (!native) {
+          return {
+            role: msg.role === 'tool' ? 'user' : msg.role,
+            content: msg.role === 'tool' ? `Tool result: ${getTextContent(msg.content)}` : getTextContent(msg.content),
+            ...(images.length > 0 && { images }),
+          };
+        }
+
+        return {
+          role: msg.role,
+          content: getTextContent(msg.content),
+          ...(images.length > 0 && { images }),
+          ...(msg.role === 'tool' && msg.name && { tool_name: msg.name }),
+          ...(msg.toolCalls && {
+            tool_calls: msg.toolCalls.map((tc) => ({ function: { name: tc.name, arguments: tc.arguments ?? {} } })),
+          }),
+        };
+      }),
+    );
+  }
+
+  /**
+   * Convert image parts to the base64 strings Ollama expects (data URLs, HTTP(S) URLs and file URLs)
+   */
+  private async loadImages(content: string | ContentPart[], signal?: AbortSignal): Promise<string[]> {
+    if (typeof content === 'string') return [];
+
+    const images = content.filter((part): part is ImagePart => part.type === 'image_url');
+
+    return Promise.all(
+      images.map((part) => {
+        let image = this.imageCache.get(part);
+
+        if (!image) {
+          image = this.loadImage(part.image_url.url, signal);
+          this.imageCache.set(part, image);
+          // A failed or cancelled load is retried on the next turn
+          image.catch(() => this.imageCache.delete(part));
+        }
+
+        return image;
+      }),
+    );
+  }
+
+  private async loadImage(url: string, signal?: AbortSignal): Promise<string> {
+    const dataUrl = /^data:[^;]+;base64,(.*)$/s.exec(url);
+
+    if (dataUrl) {
+      return dataUrl[1];
+    }
+
+    if (/^https?:\/\//i.test(url)) {
+      const response = await fetch(url, { signal });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch image ${url}: ${response.status} ${response.statusText}`);
       }
+
+      return Buffer.from(await response.arrayBuffer()).toString('base64');
+    }
+
+    // Bare paths are refused so a user-supplied URL cannot read arbitrary local files; local images need an explicit file: URL
+    if (/^file:/i.test(url)) {
+      return (await fs.readFile(fileURLToPath(url))).toString('base64');
     }
+
+    throw new Error(`Unsupported image URL ${url}: use a data:, http(s): or file: URL`);
+  }
+
+  private formatUsage(response: { prompt_eval_count?: number; eval_count?: number }): ProviderResponse['usage'] {
+    // prompt_eval_count is omitted when the whole prompt was served from Ollama's cache
+    const promptTokens = response.prompt_eval_count || 0;
+    const completionTokens = response.eval_count || 0;
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+
+  private toToolCalls(toolCalls?: Array<{ function: { name: string; arguments: Record<string, any> } }>): ToolCall[] {
+    // Ollama does not assign ids to tool calls
+    return (toolCalls || []).map((tc) => ({ id: generateToolCallId(), name: tc.function.name, arguments: tc.function.arguments ?? {} }));
+  }
+
+  private matchesModel(families: string[], model?: string): boolean {
+    if (!model) return false;
+    const name = model.split(':')[0];
+    return families.some((family) => name.includes(family));
   }
 }
@@ -0,0 +1,153 @@
+import http from 'node:http';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { defineProvider, defineTool } from '../helpers';
+import type { ProviderDefinition, ProviderStreamChunk } from '../types/provider';
+
+interface RecordedRequest {
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+const weather = defineTool({
+  name: 'weather',
+  description: 'Current weather for a city',
+  schema: z.object({ city: z.string() }),
+  execute: async ({ city }) => `Sunny in ${city}`,
+});
+
+const completion = (message: Record<string, unknown>, finishReason = 'stop') => ({
+  id: 'chatcmpl-1',
+  object: 'chat.completion',
+  created: 0,
+  model: 'local-model',
+  choices: [{ index: 0, message: { role: 'assistant', ...message }, finish_reason: finishReason }],
+  usage: { prompt_tokens: 8, completion_tokens: 4, total_tokens: 12 },
+});
+
+describe('OpenAICompatibleProvider', () => {
+  let server: http.Server;
+  let baseURL: string;
+  let requests: RecordedRequest[];
+  let reply: (res: http.ServerResponse) => void;
+
+  const create = (definition: Partial<ProviderDefinition> = {}) =>
+    defineProvider({ name: 'local', type: 'openai-compatible', baseURL, defaultModel: 'local-model', ...definition });
+
+  const json = (body: unknown) => (res: http.ServerResponse) => {
+    res.setHeader('content-type', 'application/json');
+    res.end(JSON.stringify(body));
+  };
+
+  beforeEach(async () => {
+    requests = [];
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        requests.push({ url: req.url, headers: req.headers, body: JSON.parse(raw) });
+        reply(res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    const { port } = server.address() as { port: number };
+    baseURL = `http://127.0.0.1:${port}/v1`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('requires a baseURL and a defaultModel', () => {
+    expect(() => defineProvider({ name: 'x', type: 'openai-compatible', defaultModel: 'm' })).toThrow('requires a baseURL');
+    expect(() => defineProvider({ name: 'x', type: 'openai-compatible', baseURL })).toThrow('requires a defaultModel');
+  });
+
+  it('sends requests to the baseURL with custom headers and no key', async () => {
+    reply = json(completion({ content: 'Hello' }));
+    const provider = create({ headers: { 'X-Title': 'zaflow-test' } });
+
+    const response = await provider.chat([{ role: 'user', content: 'Hi' }], {});
+
+    const { url, headers, body } = requests[0];
+    expect(url).toBe('/v1/chat/completions');
+    expect(headers['x-title']).toBe('zaflow-test');
+    expect(body.model).toBe('local-model');
+    expect(response).toMatchObject({ content: 'Hello', usage: { promptTokens: 8, completionTokens: 4, totalTokens: 12 } });
+  });
+
+  it('sends native tools and returns their calls', async () => {
+    reply = json(completion({ content: null, tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'weather', arguments: '{"city":"Paris"}' } }] }, 'tool_calls'));
+
+    const response = await create().chat([{ role: 'user', content: 'Weather in Paris?' }], {}, [weather]);
+
+    expect(requests[0].body.tools[0]).toMatchObject({ type: 'function', function: { name: 'weather' } });
+    expect(response.toolCalls).toEqual([{ id: 'call_1', name: 'weather', arguments: { city: 'Paris' } }]);
+  });
+
+  it('falls back to XML tool instructions without native tools', async () => {
+    reply = json(completion({ content: '<tool_call><id>t1</id><name>weather</name><arguments>{"city":"Oslo"}</arguments></tool_call>' }));
+
+    const response = await create({ supportsNativeTools: false }).chat(
+      [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Weather in Oslo?' },
+      ],
+      {},
+      [weather],
+    );
+
+    const { body } = requests[0];
+    expect(body.tools).toBeUndefined();
+    expect(body.messages[0].role).toBe('system');
+    expect(body.messages[0].content).toMatch(/^Be brief\.\n\n[\s\S]*<tool_call>/);
+    expect(response.toolCalls).toEqual([{ id: 't1', name: 'weather', arguments: { city: 'Oslo' } }]);
+  });
+
+  it('replaces media with a note unless the endpoint supports vision', async () => {
+    reply = json(completion({ content: 'ok' }));
+    const content = [
+      { type: 'text' as const, text: 'Describe' },
+      { type: 'image_url' as const, image_url: { url: 'data:image/png;base64,AAAA' } },
+    ];
+
+    await create().chat([{ role: 'user', content }], {});
+    await create({ supportsVision: true }).chat([{ role: 'user', content }], {});
+
+    expect(requests[0].body.messages[0].content).toBe('Describe\n\n[1 media item(s) omitted: this model cannot see them]');
+    expect(requests[1].body.messages[0].content[1]).toMatchObject({ type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } });
+  });
+
+  it('streams text, tool call fragments and a finish chunk', async () => {
+    const chunk = (delta: Record<string, unknown>, finishReason: string | null = null, usage?: unknown) => ({
+      id: 'chatcmpl-1',
+      object: 'chat.completion.chunk',
+      created: 0,
+      model: 'local-model',
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+      ...(usage && { usage }),
+    });
+    const chunks = [
+      chunk({ role: 'assistant', content: 'Let me ' }),
+      chunk({ content: 'check.' }),
+      chunk({ tool_calls: [{ index: 0, id: 'call_2', type: 'function', function: { name: 'weather', arguments: '{"city"' } }] }),
+      chunk({ tool_calls: [{ index: 0, function: { arguments: ':"Rome"}' } }] }),
+      chunk({}, 'tool_calls', { prompt_tokens: 10, completion_tokens: 6, total_tokens: 16 }),
+    ];
+
+    reply = (res) => {
+      res.setHeader('content-type', 'text/event-stream');
+      res.end(chunks.map((c) => `data: ${JSON.stringify(c)}\n\n`).join('') + 'data: [DONE]\n\n');
+    };
+
+    const received: Array<string | ProviderStreamChunk> = [];
+    for await (const c of create().stream!([{ role: 'user', content: 'Weather in Rome?' }], {}, [weather])) received.push(c);
+
+    expect(requests[0].body.stream).toBe(true);
+    expect(received.map((c) => (typeof c === 'string' ? c : c.type === 'text' ? c.text : '')).join('')).toBe('Let me check.');
+    expect(received).toContainEqual({ type: 'tool-call', toolCall: { id: 'call_2', name: 'weather', arguments: { city: 'Rome' } } });
+    expect(received[received.length - 1]).toMatchObject({ type: 'finish', finishReason: 'tool_calls' });
+  });
+});
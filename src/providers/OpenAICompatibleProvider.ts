@@ -0,0 +1,58 @@
+import { MessageAdapter } from '../protocol/MessageAdapter';
+import { ToolCallParser } from '../protocol/ToolCallParser';
+import { ModelConfig } from '../types/core';
+import { ProviderCallOptions, ProviderDefinition, ProviderMessage, ProviderResponse, ProviderStreamChunk } from '../types/provider';
+import { Tool } from '../types/tool';
+import { OpenAIProvider } from './OpenAIProvider';
+
+/**
+ * Provider for servers that speak the OpenAI chat completions format (vLLM, LM Studio, llama.cpp, OpenRouter, Together, ...)
+ * Capabilities are declared per endpoint; tools fall back to XML instructions and media is dropped when unsupported.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  declare name: string;
+  type = 'openai-compatible';
+  declare readonly supportsNativeTools: boolean;
+  readonly supportsVision: boolean;
+  declare readonly supportsJsonMode: boolean;
+
+  constructor(definition: ProviderDefinition) {
+    // Local servers usually ignore the key, but the OpenAI client refuses to start without one
+    super(definition.apiKey || 'not-needed', definition.defaultModel, definition);
+    this.name = definition.name || 'openai-compatible';
+    this.defaultModel = definition.defaultModel;
+    this.supportsNativeTools = definition.supportsNativeTools ?? true;
+    this.supportsVision = definition.supportsVision ?? false;
+    this.supportsJsonMode = definition.supportsJsonMode ?? false;
+  }
+
+  async chat(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[], callOptions?: ProviderCallOptions): Promise<ProviderResponse> {
+    const adapted = this.adaptMessages(messages);
+
+    if (!tools || tools.length === 0 || this.supportsNativeTools) {
+      return super.chat(adapted, config, tools, callOptions);
+    }
+
+    const response = await super.chat(MessageAdapter.withToolInstructions(adapted, tools), config, undefined, callOptions);
+
+    if (ToolCallParser.hasToolCalls(response.content)) {
+      response.toolCalls = ToolCallParser.parse(response.content);
+    }
+
+    return response;
+  }
+
+  async *stream(
+    messages: ProviderMessage[],
+    config: ModelConfig,
+    tools?: Tool[],
+    callOptions?: ProviderCallOptions,
+  ): AsyncIterableIterator<ProviderStreamChunk> {
+    // Without native tools the engine already streams with XML instructions and parses the result
+    yield* super.stream(this.adaptMessages(messages), config, this.supportsNativeTools ? tools : undefined, callOptions);
+  }
+
+  private adaptMessages(messages: ProviderMessage[]): ProviderMessage[] {
+    return this.supportsVision ? messages : MessageAdapter.omitMedia(messages);
+  }
+}
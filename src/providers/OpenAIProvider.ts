@@ -1,47 +1,47 @@
 import type OpenAI from 'openai';
 import { BaseProvider } from '../core/entities/Provider';
 import { ResponseFormatter } from '../protocol/ResponseFormatter';
+import { ToolCallAssembler } from '../protocol/ToolCallAssembler';
 import { getTextContent } from '../types/content';
 import { ModelConfig } from '../types/core';
-import { Provider, ProviderMessage, ProviderResponse } from '../types/provider';
+import { Provider, ProviderCallOptions, ProviderMessage, ProviderResponse, ProviderStreamChunk } from '../types/provider';
 import { Tool } from '../types/tool';
 import { LazyLoader } from '../utils/system/LazyLoader';
 
+export interface OpenAIClientOptions {
+  baseURL?: string;
+  timeout?: number;
+  headers?: Record<string, string>;
+}
+
 export class OpenAIProvider extends BaseProvider implements Provider {
   name = 'openai';
   type = 'openai';
   private client: OpenAI;
   declare defaultModel?: string;
-  readonly supportsNativeTools = true;
+  readonly supportsNativeTools: boolean = true;
+  readonly supportsJsonMode: boolean = true;
 
-  constructor(apiKey: string, defaultModel?: string) {
+  constructor(apiKey: string, defaultModel?: string, clientOptions: OpenAIClientOptions = {}) {
     super();
     const mod = LazyLoader.load<any>('openai', 'OpenAI');
     const OpenAIClass = mod.default || mod.OpenAI || mod;
-    this.client = new OpenAIClass({ apiKey });
+    // Retries are handled by ZaFlow's retry policy
+    this.client = new OpenAIClass({
+      apiKey,
+      baseURL: clientOptions.baseURL,
+      timeout: clientOptions.timeout,
+      defaultHeaders: clientOptions.headers,
+      maxRetries: 0,
+    });
     this.defaultModel = defaultModel || 'gpt-4-turbo-preview';
   }
 
-  async chat(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[]): Promise<ProviderResponse> {
-    const openaiMessages = messages.map((msg) => ({
-      role: msg.role,
-      content: msg.role === 'system' || msg.role === 'tool' ? getTextContent(msg.content) : msg.content,
-      ...(msg.name && { name: msg.name }),
-      ...(msg.toolCallId && { tool_call_id: msg.toolCallId }),
-      ...(msg.toolCalls && {
-        tool_calls: msg.toolCalls.map((tc) => ({
-          id: tc.id,
-          type: 'function' as const,
-          function: {
-            name: tc.name,
-            arguments: JSON.stringify(tc.arguments),
-          },
-        })),
-      }),
-    }));
+  async chat(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[], callOptions?: ProviderCallOptions): Promise<ProviderResponse> {
+    const openaiMessages = this.formatMessages(messages);
 
     const options: any = {
-      model: this.defaultModel,
+      model: config.model || this.defaultModel,
       messages: openaiMessages,
       temperature: config.temperature,
       max_tokens: config.maxTokens,
@@ -49,13 +49,14 @@ export class OpenAIProvider extends BaseProvider implements Provider {
       frequency_penalty: config.frequencyPenalty,
       presence_penalty: config.presencePenalty,
       stop: config.stopSequences,
+      ...(config.responseFormat === 'json' && { response_format: { type: 'json_object' } }),
     };
 
     if (tools && tools.length > 0) {
       options.tools = ResponseFormatter.formatToolsAsJSON(tools);
     }
 
-    const completion = await this.client.chat.completions.create(options);
+    const completion = await this.client.chat.completions.create(options, { signal: callOptions?.signal });
     const choice = completion.choices[0];
     const message = choice.message;
 
@@ -79,33 +80,80 @@ export class OpenAIProvider extends BaseProvider implements Provider {
     };
   }
 
-  async *stream(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[]): AsyncIterableIterator<string> {
-    const openaiMessages = messages.map((msg) => ({
-      role: msg.role,
-      content: msg.role === 'system' || msg.role === 'tool' ? getTextContent(msg.content) : msg.content,
-      ...(msg.name && { name: msg.name }),
-      ...(msg.toolCallId && { tool_call_id: msg.toolCallId }),
-    }));
+  async *stream(
+    messages: ProviderMessage[],
+    config: ModelConfig,
+    tools?: Tool[],
+    callOptions?: ProviderCallOptions,
+  ): AsyncIterableIterator<ProviderStreamChunk> {
+    const openaiMessages = this.formatMessages(messages);
 
     const options = {
-      model: this.defaultModel,
+      model: config.model || this.defaultModel,
       messages: openaiMessages,
       temperature: config.temperature,
       max_tokens: config.maxTokens,
       stream: true as const,
+      stream_options: { include_usage: true },
       ...(tools &&
         tools.length > 0 && {
           tools: ResponseFormatter.formatToolsAsJSON(tools),
         }),
     };
 
-    const stream = (await this.client.chat.completions.create(options as any)) as any;
+    const stream = (await this.client.chat.completions.create(options as any, { signal: callOptions?.signal })) as any;
+    const assembler = new ToolCallAssembler();
+    let finishReason: ProviderResponse['finishReason'];
+    let usage: ProviderResponse['usage'];
 
     for await (const chunk of stream) {
-      const delta = chunk.choices[0]?.delta;
+      const choice = chunk.choices[0];
+      const delta = choice?.delta;
+
       if (delta?.content) {
-        yield delta.content;
+        yield { type: 'text', text: delta.content };
+      }
+
+      if (delta?.tool_calls) {
+        yield* assembler.push(delta.tool_calls);
       }
+
+      if (choice?.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+          totalTokens: chunk.usage.total_tokens,
+        };
+      }
+    }
+
+    for (const toolCall of assembler.complete()) {
+      yield { type: 'tool-call', toolCall };
     }
+
+    yield { type: 'finish', finishReason, usage };
+  }
+
+  private formatMessages(messages: ProviderMessage[]) {
+    return messages.map((msg) => ({
+      role: msg.role,
+      content: msg.role === 'system' || msg.role === 'tool' ? getTextContent(msg.content) : msg.content,
+      ...(msg.name && { name: msg.name }),
+      ...(msg.toolCallId && { tool_call_id: msg.toolCallId }),
+      ...(msg.toolCalls && {
+        tool_calls: msg.toolCalls.map((tc) => ({
+          id: tc.id,
+          type: 'function' as const,
+          function: {
+            name: tc.name,
+            arguments: JSON.stringify(tc.arguments),
+          },
+        })),
+      }),
+    }));
   }
 }
@@ -0,0 +1,102 @@
+import { getTextContent, hasMedia } from '../types/content';
+import { ModelConfig } from '../types/core';
+import { Provider, ProviderCallOptions, ProviderMessage, ProviderResponse, ProviderRoute, ProviderStreamChunk, RouteContext, RouterProviderDefinition } from '../types/provider';
+import { Tool } from '../types/tool';
+import { Intent } from '../utils/intelligence/Intent';
+import { countMessageTokens } from '../utils/tokenizer';
+import { CompositeProvider } from './CompositeProvider';
+
+/**
+ * Composite provider that picks one provider per request from ordered routing rules
+ * Capability flags are true when any route supports them; each request is adapted to the chosen provider.
+ */
+export class RouterProvider extends CompositeProvider {
+  name: string;
+  type = 'router';
+  private routes: ProviderRoute[];
+  private fallback: Provider;
+
+  constructor(definition: RouterProviderDefinition) {
+    super([...definition.routes.map((r) => r.provider), ...(definition.defaultProvider ? [definition.defaultProvider] : [])]);
+    this.name = definition.name || 'router';
+    this.routes = definition.routes;
+    this.fallback = definition.defaultProvider || this.providers[this.providers.length - 1];
+    this.defaultModel = this.fallback.defaultModel;
+  }
+
+  get supportsNativeTools(): boolean {
+    return this.providers.some((p) => p.supportsNativeTools);
+  }
+
+  get supportsVision(): boolean {
+    return this.providers.some((p) => p.supportsVision);
+  }
+
+  get supportsJsonMode(): boolean {
+    return this.providers.some((p) => p.supportsJsonMode);
+  }
+
+  async chat(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[], callOptions?: ProviderCallOptions): Promise<ProviderResponse> {
+    const route = this.select(messages, config, tools);
+    return this.chatWith(route.provider, messages, this.configFor(route, config), tools, callOptions);
+  }
+
+  async *stream(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[], callOptions?: ProviderCallOptions): AsyncIterableIterator<string | ProviderStreamChunk> {
+    const route = this.select(messages, config, tools);
+    yield* this.streamWith(route.provider, messages, this.configFor(route, config), tools, callOptions);
+  }
+
+  /**
+   * Pick the first route whose condition matches the request
+   */
+  select(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[]): ProviderRoute {
+    const context = this.createContext(messages, config, tools);
+
+    for (const route of this.routes) {
+      if (this.matches(route, context)) {
+        return route;
+      }
+    }
+
+    return { provider: this.fallback };
+  }
+
+  private configFor(route: ProviderRoute, config: ModelConfig): ModelConfig {
+    return route.model ? { ...config, model: route.model } : config;
+  }
+
+  private createContext(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[]): RouteContext {
+    const lastUserMessage = [...messages].reverse().find((m) => m.role === 'user');
+    let conversationalScore: number | undefined;
+
+    return {
+      messages,
+      config,
+      tools,
+      estimatedTokens: countMessageTokens(messages.map((m) => ({ role: m.role, content: getTextContent(m.content) }))),
+      hasMedia: messages.some((m) => hasMedia(m.content)),
+      hasTools: !!tools && tools.length > 0,
+      // NLP scoring is comparatively slow, so only compute it when a rule asks
+      get conversationalScore() {
+        conversationalScore ??= Intent.getConversationalScore(lastUserMessage ? getTextContent(lastUserMessage.content) : '');
+        return conversationalScore;
+      },
+    };
+  }
+
+  private matches(route: ProviderRoute, context: RouteContext): boolean {
+    const { when } = route;
+
+    if (!when) return true;
+    if (typeof when === 'function') return when(context);
+
+    return (
+      (when.minTokens === undefined || context.estimatedTokens >= when.minTokens) &&
+      (when.maxTokens === undefined || context.estimatedTokens <= when.maxTokens) &&
+      (when.hasMedia === undefined || context.hasMedia === when.hasMedia) &&
+      (when.hasTools === undefined || context.hasTools === when.hasTools) &&
+      (when.minConversationalScore === undefined || context.conversationalScore >= when.minConversationalScore) &&
+      (when.maxConversationalScore === undefined || context.conversationalScore <= when.maxConversationalScore)
+    );
+  }
+}
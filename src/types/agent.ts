@@ -17,6 +17,18 @@ export interface AgentConstraints {
   maxExecutionTime?: number;
 }
 
+/**
+ * Constraint exceeded during an agent invocation
+ */
+export interface ConstraintViolation {
+  /** Agent whose constraint was exceeded */
+  agentName: string;
+  /** Constraint that was exceeded */
+  constraint: keyof AgentConstraints;
+  /** Configured limit */
+  limit: number;
+}
+
 /**
  * Agent definition
  */
@@ -1,6 +1,6 @@
 import type { z } from 'zod';
 import type { Tool } from './tool';
-import type { Agent } from './agent';
+import type { Agent, ConstraintViolation } from './agent';
 import type { Provider } from './provider';
 import type { Hooks } from './hooks';
 import type { StoragePlugin } from './storage';
@@ -39,6 +39,8 @@ export interface Message {
  * Model configuration
  */
 export interface ModelConfig {
+  /** Model for this call (default: the provider's defaultModel) */
+  model?: string;
   /** Temperature (0.0 - 2.0) */
   temperature?: number;
   /** Maximum completion tokens */
@@ -55,6 +57,8 @@ export interface ModelConfig {
   stopSequences?: string[];
   /** Enable streaming */
   stream?: boolean;
+  /** Response format (uses native JSON mode when the provider supports it) */
+  responseFormat?: 'text' | 'json';
 }
 
 /**
@@ -73,6 +77,37 @@ export interface HistoryConfig {
   keepSystemMessage?: boolean;
 }
 
+/**
+ * Tool loop policy (agentic mode)
+ */
+export interface LoopPolicy {
+  /** Maximum tool-calling iterations (default: 10) */
+  maxIterations?: number;
+  /** Maximum tool calls across the whole loop */
+  maxToolCalls?: number;
+  /** Maximum times the same tool call (name + arguments) may run (default: 3) */
+  maxRepeatedCalls?: number;
+  /** Maximum invalid-argument corrections per tool before it is withdrawn (default: 2) */
+  maxArgumentRetries?: number;
+  /** Ask the model for a final answer from what it has when a limit is reached (default: true) */
+  summarizeOnLimit?: boolean;
+}
+
+/**
+ * Orchestration policy (autonomous mode)
+ */
+export interface OrchestrationPolicy {
+  /** Delegation rounds the orchestrator may run before it must answer (default: 1) */
+  maxRounds?: number;
+  /** Delegated agents running at the same time (default: 3) */
+  concurrency?: number;
+}
+
+/**
+ * Why an execution finished
+ */
+export type FinishReason = 'stop' | 'max_iterations' | 'max_tool_calls' | 'repeated_tool_calls' | 'constraint_exceeded';
+
 /**
  * Execution mode
  */
@@ -104,16 +139,22 @@ export interface ZaFlowOptions<TContext = any> {
   optimization?: OptimizationConfig;
   /** System prompt override */
   systemPrompt?: string;
+  /** Tool loop policy (agentic mode) */
+  loopPolicy?: LoopPolicy;
+  /** Orchestration policy (autonomous mode) */
+  orchestration?: OrchestrationPolicy;
 }
 
 /**
  * Run options
  */
-export interface RunOptions {
+export interface RunOptions<T = any> {
   /** Override model config for this run */
   config?: Partial<ModelConfig>;
-  /** Structured output schema */
-  schema?: z.ZodSchema;
+  /** Structured output schema (validated result is returned as `data`) */
+  schema?: z.ZodType<T>;
+  /** Maximum correction attempts when the output fails schema validation (default: 2) */
+  schemaRetries?: number;
   /** Return detailed response */
   detailed?: boolean;
   /** Skip context clearing after run */
@@ -122,6 +163,12 @@ export interface RunOptions {
     systemPrompt?: string;
     /** Target specific agent for this run (agentic mode) */
   agentName?: string;
+  /** Abort signal for cancelling the run */
+  signal?: AbortSignal;
+  /** Override tool loop policy for this run */
+  loopPolicy?: LoopPolicy;
+  /** Override orchestration policy for this run */
+  orchestration?: OrchestrationPolicy;
 }
 
 /**
@@ -134,6 +181,12 @@ export interface StreamOptions {
   persistContext?: boolean;
   /** Override system prompt for this stream */
   systemPrompt?: string;
+  /** Abort signal for cancelling the stream */
+  signal?: AbortSignal;
+  /** Override tool loop policy for this stream */
+  loopPolicy?: LoopPolicy;
+  /** Override orchestration policy for this stream */
+  orchestration?: OrchestrationPolicy;
 }
 
 /**
@@ -154,6 +207,12 @@ export interface ExecutionMetadata {
   agentsCalled: string[];
   executionTime: number; // milliseconds
   model: string;
+  /** Provider that answered (the fallback that actually responded, for composite providers) */
+  provider?: string;
+  /** Agent constraints exceeded during execution */
+  constraintsExceeded?: ConstraintViolation[];
+  /** Time spent waiting on provider rate limiters, in milliseconds */
+  rateLimitWait?: number;
 }
 
 /**
@@ -168,9 +227,13 @@ export interface ErrorResponse {
 /**
  * ZaFlow response
  */
-export interface ZaFlowResponse {
+export interface ZaFlowResponse<T = any> {
   /** Response content */
   content: string;
+  /** Validated structured output (if a schema was provided) */
+  data?: T;
+  /** Why the execution finished (anything other than 'stop' means the answer was truncated) */
+  finishReason?: FinishReason;
   /** Metadata (if detailed: true) */
   metadata?: ExecutionMetadata;
   /** Error (if any) */
@@ -1,4 +1,5 @@
 import type { ZaFlowResponse } from './core';
+import type { ConstraintViolation } from './agent';
 
 /**
  * Error context for error hooks
@@ -23,19 +24,20 @@ export interface Hooks {
   /** Tool events */
   onToolCall?: (toolName: string, args: any) => void | Promise<void>;
   onToolComplete?: (toolName: string, result: any) => void | Promise<void>;
-  onToolError?: (toolName: string, error: Error) => void | Promise<void>;
+  onToolError?: (toolName: string, error: Error, toolCallId?: string) => void | Promise<void>;
 
   /** Agent events */
   onAgentStart?: (agentName: string) => void | Promise<void>;
   onAgentComplete?: (agentName: string, output: string) => void | Promise<void>;
   onAgentError?: (agentName: string, error: Error) => void | Promise<void>;
+  onConstraintExceeded?: (violation: ConstraintViolation) => void | Promise<void>;
 
   /** Streaming events */
   onStreamChunk?: (chunk: string) => void | Promise<void>;
   onStreamComplete?: (fullText: string) => void | Promise<void>;
 
   /** Retry events */
-  onRetry?: (attempt: number, error: Error) => void | Promise<void>;
+  onRetry?: (attempt: number, error: Error, context?: ErrorContext) => void | Promise<void>;
 
   /** Context events */
   onContextUpdate?: (context: any) => void | Promise<void>;
@@ -6,3 +6,4 @@ export * from './agent';
 export * from './hooks';
 export * from './storage';
 export * from './optimization';
+export * from './stream';
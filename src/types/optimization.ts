@@ -10,10 +10,17 @@ export interface RetryConfig {
   exponentialBackoff?: boolean;
   /** Maximum delay in milliseconds */
   maxDelay?: number;
+  /** Longest server-requested wait (Retry-After / x-ratelimit-reset) to honor before giving up, in milliseconds */
+  maxRetryAfter?: number;
   /** Callback on retry */
   onRetry?: (attempt: number, error: Error) => void | Promise<void>;
 }
 
+/**
+ * Error classes used to decide retries and provider fallback
+ */
+export type ErrorClass = 'rate_limit' | 'server' | 'network' | 'timeout' | 'auth' | 'client' | 'validation' | 'abort' | 'unknown';
+
 /**
  * Cache configuration
  */
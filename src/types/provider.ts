@@ -1,6 +1,8 @@
 import type { Tool } from './tool';
 import type { ModelConfig } from './core';
 import type { ContentPart } from './content';
+import type { ErrorClass, RetryConfig } from './optimization';
+import type { RateLimiter } from '../utils/system/RateLimiter';
 
 /**
  * Tool call structure
@@ -9,6 +11,8 @@ export interface ToolCall {
   id: string;
   name: string;
   arguments: any;
+  /** Ids of calls in the same batch that must finish first (arguments may also reference them via { "$ref": "<id>" }) */
+  dependsOn?: string[];
 }
 
 /**
@@ -23,8 +27,22 @@ export interface ProviderResponse {
   };
   toolCalls?: ToolCall[];
   finishReason?: 'stop' | 'length' | 'tool_calls' | 'content_filter';
+  /** Provider that actually answered (set by composite providers) */
+  provider?: string;
+  /** Model that actually answered (set by composite providers) */
+  model?: string;
 }
 
+/**
+ * Streamed provider chunk
+ * Plain strings are accepted as text chunks for backward compatibility
+ */
+export type ProviderStreamChunk =
+  | { type: 'text'; text: string }
+  | { type: 'tool-call-delta'; index: number; id?: string; name?: string; argumentsDelta?: string }
+  | { type: 'tool-call'; toolCall: ToolCall }
+  | { type: 'finish'; finishReason?: ProviderResponse['finishReason']; usage?: ProviderResponse['usage']; provider?: string; model?: string };
+
 /**
  * Message for provider
  * 🔥 content supports multimodal (string | ContentPart[]) for vision/audio models
@@ -37,10 +55,18 @@ export interface ProviderMessage {
   toolCalls?: ToolCall[];
 }
 
+/**
+ * Per-call provider options
+ */
+export interface ProviderCallOptions {
+  /** Abort signal for cancelling the request */
+  signal?: AbortSignal;
+}
+
 /**
  * Provider adapter function
  */
-export type ProviderAdapter = (messages: ProviderMessage[], config: ModelConfig, tools?: Tool[]) => Promise<ProviderResponse>;
+export type ProviderAdapter = (messages: ProviderMessage[], config: ModelConfig, tools?: Tool[], options?: ProviderCallOptions) => Promise<ProviderResponse>;
 
 /**
  * Rate limit configuration
@@ -57,7 +83,7 @@ export interface ProviderDefinition {
   /** Provider name */
   name: string;
   /** Provider type */
-  type: 'groq' | 'ollama' | 'openai' | 'custom';
+  type: 'groq' | 'ollama' | 'openai' | 'openai-compatible' | 'anthropic' | 'gemini' | 'custom';
   /** API key (if required) */
   apiKey?: string;
   /** Base URL (if custom) */
@@ -68,12 +94,82 @@ export interface ProviderDefinition {
   adapter?: ProviderAdapter;
   /** Request timeout */
   timeout?: number;
-  /** Rate limiting */
-  rateLimit?: RateLimit;
+  /** Extra HTTP headers sent with every request (openai, openai-compatible) */
+  headers?: Record<string, string>;
+  /** Rate limiting (pass a RateLimiter instance to share one budget between providers) */
+  rateLimit?: RateLimit | RateLimiter;
+  /** Retry policy for this provider's requests (overrides ZaFlowOptions.retryConfig) */
+  retry?: RetryConfig;
   /** Whether the provider supports native tool calling */
   supportsNativeTools?: boolean;
   /** Whether the provider supports vision (images) */
   supportsVision?: boolean;
+  /** Whether the provider supports native JSON mode */
+  supportsJsonMode?: boolean;
+}
+
+/**
+ * Fallback provider definition
+ */
+export interface FallbackProviderDefinition {
+  /** Provider name (default: names of the wrapped providers joined by '|') */
+  name?: string;
+  /** Providers to try, in order */
+  providers: Provider[];
+  /** Error classes that move on to the next provider (default: rate_limit, server, network, timeout) */
+  fallbackOn?: ErrorClass[] | ((error: Error) => boolean);
+}
+
+/**
+ * Request facts available to routing rules
+ */
+export interface RouteContext {
+  messages: ProviderMessage[];
+  config: ModelConfig;
+  tools?: Tool[];
+  /** Estimated prompt size in tokens */
+  estimatedTokens: number;
+  /** Whether any message contains images, audio or files */
+  hasMedia: boolean;
+  /** Whether tools are attached to the request */
+  hasTools: boolean;
+  /** Intent.getConversationalScore of the latest user message (0-1, higher = small talk) */
+  readonly conversationalScore: number;
+}
+
+/**
+ * Declarative routing condition (all set fields must match)
+ */
+export interface RouteCondition {
+  minTokens?: number;
+  maxTokens?: number;
+  hasMedia?: boolean;
+  hasTools?: boolean;
+  minConversationalScore?: number;
+  maxConversationalScore?: number;
+}
+
+/**
+ * Routing rule
+ */
+export interface ProviderRoute {
+  provider: Provider;
+  /** Model to request from the provider (overrides the model set by the caller) */
+  model?: string;
+  /** Condition or predicate; a route without one always matches */
+  when?: RouteCondition | ((context: RouteContext) => boolean);
+}
+
+/**
+ * Router provider definition
+ */
+export interface RouterProviderDefinition {
+  /** Provider name (default: 'router') */
+  name?: string;
+  /** Routes, checked in order; the first match handles the request */
+  routes: ProviderRoute[];
+  /** Provider used when no route matches (default: the last route's provider) */
+  defaultProvider?: Provider;
 }
 
 /**
@@ -87,14 +183,38 @@ export interface Provider {
   readonly supportsNativeTools?: boolean;
   /** Whether the provider supports vision (images) */
   readonly supportsVision?: boolean;
+  /** Whether the provider supports native JSON mode */
+  readonly supportsJsonMode?: boolean;
+  /** Native tool calling support of a specific model, for providers where it differs per model */
+  supportsNativeToolsFor?(model?: string): boolean;
+  /** Vision support of a specific model, for providers where it differs per model */
+  supportsVisionFor?(model?: string): boolean;
+  /** Retry policy for this provider's requests */
+  retry?: RetryConfig;
+  /** Client-side rate limiter applied to every request */
+  rateLimiter?: RateLimiter;
 
   /**
    * Send chat completion request
    */
-  chat(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[]): Promise<ProviderResponse>;
+  chat(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[], options?: ProviderCallOptions): Promise<ProviderResponse>;
 
   /**
-   * Stream chat completion
+   * Stream chat completion (text, assembled tool calls and a final finish chunk)
    */
-  stream?(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[]): AsyncIterableIterator<string>;
+  stream?(messages: ProviderMessage[], config: ModelConfig, tools?: Tool[], options?: ProviderCallOptions): AsyncIterableIterator<string | ProviderStreamChunk>;
+}
+
+/**
+ * Whether the model that will answer supports native tool calling, falling back to the provider-wide flag
+ */
+export function hasNativeTools(provider: Provider, model?: string): boolean {
+  return provider.supportsNativeToolsFor?.(model) ?? provider.supportsNativeTools ?? false;
+}
+
+/**
+ * Whether the model that will answer accepts images, falling back to the provider-wide flag
+ */
+export function hasVision(provider: Provider, model?: string): boolean {
+  return provider.supportsVisionFor?.(model) ?? provider.supportsVision ?? false;
 }
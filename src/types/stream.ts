@@ -0,0 +1,86 @@
+import type { ErrorResponse, TokenUsage } from './core';
+
+/**
+ * Text generated by the model
+ */
+export interface TextDeltaEvent {
+  type: 'text-delta';
+  text: string;
+}
+
+/**
+ * A tool call has been issued
+ */
+export interface ToolCallStartEvent {
+  type: 'tool-call-start';
+  toolCallId: string;
+  toolName: string;
+  agentName: string;
+}
+
+/**
+ * Fragment of a tool call's JSON arguments
+ */
+export interface ToolCallArgsDeltaEvent {
+  type: 'tool-call-args-delta';
+  toolCallId: string;
+  argsDelta: string;
+}
+
+/**
+ * A tool call has finished
+ */
+export interface ToolResultEvent {
+  type: 'tool-result';
+  toolCallId: string;
+  toolName: string;
+  agentName: string;
+  result: any;
+}
+
+/**
+ * A delegated agent has started
+ */
+export interface AgentStartEvent {
+  type: 'agent-start';
+  agentName: string;
+  task: string;
+}
+
+/**
+ * A delegated agent has finished
+ */
+export interface AgentCompleteEvent {
+  type: 'agent-complete';
+  agentName: string;
+  output: string;
+}
+
+/**
+ * Token usage for the whole execution
+ */
+export interface UsageEvent {
+  type: 'usage';
+  usage: TokenUsage;
+}
+
+/**
+ * Execution failed
+ */
+export interface ErrorEvent {
+  type: 'error';
+  error: ErrorResponse;
+}
+
+/**
+ * Typed event emitted by ZaFlow.streamEvents
+ */
+export type StreamEvent =
+  | TextDeltaEvent
+  | ToolCallStartEvent
+  | ToolCallArgsDeltaEvent
+  | ToolResultEvent
+  | AgentStartEvent
+  | AgentCompleteEvent
+  | UsageEvent
+  | ErrorEvent;
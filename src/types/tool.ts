@@ -44,6 +44,8 @@ export interface ToolContext<TContext = any> {
   };
   /** Storage access */
   storage: StorageInterface;
+  /** Abort signal for the current run (tools should cancel their own I/O on abort) */
+  signal?: AbortSignal;
 }
 
 /**
@@ -85,7 +87,7 @@ export interface Tool<TSchema extends z.ZodSchema = any> {
   background?: boolean; // 🔥 Background execution
 
   /**
-   * Execute tool with validation, caching, and retry support
+   * Execute tool with validation and caching (retries are applied by ToolExecutor using `retry`)
    */
   run(args: any, context: ToolContext): Promise<any>;
 
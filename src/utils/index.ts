@@ -1,7 +1,9 @@
 export * from './intelligence/Intent';
 export * from './system/LazyLoader';
+export * from './system/RateLimiter';
 export * from './intelligence/SemanticSearch';
 export * from './intelligence/ToolIntelligence';
+export * from './system/abort';
 export * from './system/id';
 export * from './system/retry';
 export * from './system/streaming';
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RateLimiter } from './RateLimiter';
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('grants requests within the budget without waiting', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 2 });
+
+    expect(await limiter.acquire()).toBe(0);
+    expect(await limiter.acquire()).toBe(0);
+  });
+
+  it('waits for the request bucket to refill', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ requestsPerMinute: 60 });
+    await Promise.all(Array.from({ length: 60 }, () => limiter.acquire()));
+
+    const next = limiter.acquire();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(await next).toBe(1000);
+  });
+
+  it('lets a request larger than the token budget through once the bucket is full', async () => {
+    const limiter = new RateLimiter({ tokensPerMinute: 100 });
+
+    expect(await limiter.acquire(500)).toBe(0);
+  });
+
+  it('rejects a waiting request when its signal aborts', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 1 });
+    await limiter.acquire();
+
+    const controller = new AbortController();
+    const waiting = limiter.acquire(0, controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('does not let an aborted request hold up the queue', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ requestsPerMinute: 1 });
+    await limiter.acquire();
+
+    const controller = new AbortController();
+    const aborted = limiter.acquire(0, controller.signal).catch((error) => error);
+    const next = limiter.acquire();
+    controller.abort();
+
+    expect((await aborted).name).toBe('AbortError');
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(await next).toBe(60000);
+  });
+});
@@ -0,0 +1,94 @@
+import type { ModelConfig } from '../../types/core';
+import { getTextContent } from '../../types/content';
+import type { ProviderMessage, RateLimit } from '../../types/provider';
+import { countMessageTokens } from '../tokenizer';
+import { sleep } from './abort';
+
+interface Bucket {
+  capacity: number;
+  available: number;
+  /** Refill per millisecond */
+  rate: number;
+}
+
+/**
+ * Estimate the tokens a request will consume (prompt estimate plus the completion budget, if set)
+ */
+export function estimateRequestTokens(messages: ProviderMessage[], config?: ModelConfig): number {
+  const prompt = countMessageTokens(messages.map((m) => ({ role: m.role, content: getTextContent(m.content) })));
+  return prompt + (config?.maxTokens || 0);
+}
+
+/**
+ * Client-side token bucket limiter for provider requests
+ * One instance can be shared by several providers (or ZaFlow instances) using the same API key.
+ * Requests are granted in FIFO order.
+ */
+export class RateLimiter {
+  private requests?: Bucket;
+  private tokens?: Bucket;
+  private lastRefill = Date.now();
+  private tail: Promise<void> = Promise.resolve();
+
+  constructor(limits: RateLimit) {
+    if (limits.requestsPerMinute) {
+      this.requests = this.createBucket(limits.requestsPerMinute);
+    }
+
+    if (limits.tokensPerMinute) {
+      this.tokens = this.createBucket(limits.tokensPerMinute);
+    }
+  }
+
+  /**
+   * Wait until one request with `estimatedTokens` fits within the limits
+   * @returns Time spent waiting in milliseconds
+   */
+  async acquire(estimatedTokens: number = 0, signal?: AbortSignal): Promise<number> {
+    const start = Date.now();
+    const turn = this.tail.then(() => this.take(estimatedTokens, signal));
+    this.tail = turn.catch(() => undefined);
+
+    await turn;
+    return Date.now() - start;
+  }
+
+  private async take(estimatedTokens: number, signal?: AbortSignal): Promise<void> {
+    // A single request larger than the whole budget would never fit; let it through once the bucket is full
+    const tokens = this.tokens ? Math.min(estimatedTokens, this.tokens.capacity) : 0;
+
+    for (;;) {
+      this.refill();
+      const wait = Math.max(this.getWait(this.requests, 1), this.getWait(this.tokens, tokens));
+
+      if (wait <= 0) {
+        if (this.requests) this.requests.available -= 1;
+        if (this.tokens) this.tokens.available -= tokens;
+        return;
+      }
+
+      await sleep(wait, signal);
+    }
+  }
+
+  private createBucket(perMinute: number): Bucket {
+    return { capacity: perMinute, available: perMinute, rate: perMinute / 60000 };
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    this.lastRefill = now;
+
+    for (const bucket of [this.requests, this.tokens]) {
+      if (bucket) {
+        bucket.available = Math.min(bucket.capacity, bucket.available + elapsed * bucket.rate);
+      }
+    }
+  }
+
+  private getWait(bucket: Bucket | undefined, amount: number): number {
+    if (!bucket || bucket.available >= amount) return 0;
+    return Math.ceil((amount - bucket.available) / bucket.rate);
+  }
+}
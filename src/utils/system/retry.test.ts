@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { classifyError, getRetryAfter, retryWithBackoff } from './retry';
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`HTTP ${status}`), { status, headers });
+}
+
+describe('getRetryAfter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads retry-after-ms and retry-after seconds', () => {
+    expect(getRetryAfter(httpError(429, { 'retry-after-ms': '250' }))).toBe(250);
+    expect(getRetryAfter(httpError(429, { 'retry-after': '2' }))).toBe(2000);
+  });
+
+  it('reads an HTTP date', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+
+    expect(getRetryAfter(httpError(429, { 'retry-after': 'Thu, 01 Jan 2026 00:00:05 GMT' }))).toBe(5000);
+  });
+
+  it('prefers Retry-After over rate-limit reset headers', () => {
+    expect(getRetryAfter(httpError(429, { 'retry-after': '2', 'x-ratelimit-reset-tokens': '2m59s' }))).toBe(2000);
+  });
+
+  it('falls back to the longest reset header, parsing durations', () => {
+    expect(getRetryAfter(httpError(429, { 'x-ratelimit-reset-requests': '1m30s', 'x-ratelimit-reset-tokens': '250ms' }))).toBe(90000);
+  });
+
+  it('supports Headers objects and returns undefined without headers', () => {
+    expect(getRetryAfter({ response: { headers: new Headers({ 'retry-after': '1' }) } })).toBe(1000);
+    expect(getRetryAfter(new Error('boom'))).toBeUndefined();
+  });
+});
+
+describe('classifyError', () => {
+  it('classifies by status', () => {
+    expect(classifyError(httpError(429))).toBe('rate_limit');
+    expect(classifyError(httpError(503))).toBe('server');
+    expect(classifyError(httpError(401))).toBe('auth');
+    expect(classifyError(httpError(400))).toBe('client');
+  });
+
+  it('classifies network failures and timeouts', () => {
+    expect(classifyError(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe('network');
+    expect(classifyError(new TypeError('fetch failed'))).toBe('network');
+    expect(classifyError(Object.assign(new Error('slow'), { code: 'ETIMEDOUT' }))).toBe('timeout');
+  });
+
+  it('leaves programming errors unclassified', () => {
+    expect(classifyError(new TypeError('x is not a function'))).toBe('unknown');
+    expect(classifyError(new Error('Request failed'))).toBe('unknown');
+  });
+});
+
+describe('retryWithBackoff', () => {
+  const config = { maxAttempts: 3, initialDelay: 1 };
+
+  it('retries retryable errors', async () => {
+    const fn = vi.fn().mockRejectedValueOnce(httpError(503)).mockResolvedValue('ok');
+
+    await expect(retryWithBackoff(fn, config)).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry unclassified errors unless asked to', async () => {
+    const fail = () => vi.fn().mockRejectedValueOnce(new Error('Request failed')).mockResolvedValue('ok');
+
+    const strict = fail();
+    await expect(retryWithBackoff(strict, config)).rejects.toThrow('Request failed');
+    expect(strict).toHaveBeenCalledTimes(1);
+
+    const lenient = fail();
+    await expect(retryWithBackoff(lenient, config, { retryUnknown: true })).resolves.toBe('ok');
+    expect(lenient).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up when the server asks for a longer wait than maxRetryAfter', async () => {
+    const fn = vi.fn().mockRejectedValue(httpError(429, { 'retry-after': '120' }));
+
+    await expect(retryWithBackoff(fn, config)).rejects.toThrow('HTTP 429');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
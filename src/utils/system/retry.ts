@@ -1,25 +1,173 @@
-import pRetry from 'p-retry';
-import { RetryConfig } from '../../types/optimization';
+import { ErrorClass, RetryConfig } from '../../types/optimization';
+import { isAbortError, sleep, throwIfAborted } from './abort';
+import { isToolValidationError } from './validator';
 
 const DEFAULT_RETRY_CONFIG: Required<Omit<RetryConfig, 'onRetry'>> = {
   maxAttempts: 3,
   initialDelay: 1000,
   exponentialBackoff: true,
   maxDelay: 10000,
+  maxRetryAfter: 60000,
 };
 
-export async function retryWithBackoff<T>(fn: () => Promise<T>, config?: RetryConfig): Promise<T> {
-  const finalConfig = { ...DEFAULT_RETRY_CONFIG, ...config };
-
-  return pRetry(fn, {
-    retries: finalConfig.maxAttempts - 1,
-    factor: finalConfig.exponentialBackoff ? 2 : 1,
-    minTimeout: finalConfig.initialDelay,
-    maxTimeout: finalConfig.maxDelay,
-    onFailedAttempt: async (error) => {
-      if (finalConfig.onRetry) {
-        await finalConfig.onRetry(error.attemptNumber, error);
+export interface RetryOptions {
+  signal?: AbortSignal;
+  /** Additional retry listener (e.g. hooks.onRetry), called after `config.onRetry` */
+  onRetry?: (attempt: number, error: Error) => void | Promise<void>;
+  /** Also retry errors that match no class (used for tools that set their own `retry`) */
+  retryUnknown?: boolean;
+}
+
+/**
+ * Merge retry configs from least to most specific (instance → provider/tool), ignoring unset fields
+ */
+export function resolveRetryConfig(...configs: Array<RetryConfig | undefined>): RetryConfig {
+  const resolved: RetryConfig = {};
+
+  for (const config of configs) {
+    for (const [key, value] of Object.entries(config || {})) {
+      if (value !== undefined) {
+        (resolved as any)[key] = value;
+      }
+    }
+  }
+
+  return resolved;
+}
+
+export function getErrorStatus(error: unknown): number | undefined {
+  const err = error as any;
+  const status = err?.status ?? err?.statusCode ?? err?.status_code ?? err?.response?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+function getHeader(headers: any, name: string): string | undefined {
+  if (!headers) return undefined;
+  const value = typeof headers.get === 'function' ? headers.get(name) : headers[name] ?? headers[name.toLowerCase()];
+  return value === null || value === undefined ? undefined : String(value);
+}
+
+/**
+ * Parse rate-limit reset values: seconds ("2", "0.5"), durations ("1m30s", "250ms"), epoch seconds or HTTP dates
+ */
+function parseResetValue(value: string): number | undefined {
+  const trimmed = value.trim();
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const seconds = parseFloat(trimmed);
+    // Large values are absolute epoch timestamps rather than relative seconds
+    return seconds > 1e9 ? seconds * 1000 - Date.now() : seconds * 1000;
+  }
+
+  const duration = /^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+(?:\.\d+)?)ms)?$/.exec(trimmed);
+
+  if (duration && trimmed) {
+    const [, h = '0', m = '0', s = '0', ms = '0'] = duration;
+    return parseFloat(h) * 3600000 + parseFloat(m) * 60000 + parseFloat(s) * 1000 + parseFloat(ms);
+  }
+
+  const date = Date.parse(trimmed);
+  return isNaN(date) ? undefined : date - Date.now();
+}
+
+/**
+ * Server-requested wait in milliseconds from Retry-After / x-ratelimit-reset headers, if any
+ */
+export function getRetryAfter(error: unknown): number | undefined {
+  const err = error as any;
+  const headers = err?.headers ?? err?.response?.headers;
+
+  const retryAfterMs = getHeader(headers, 'retry-after-ms');
+  if (retryAfterMs !== undefined && !isNaN(parseFloat(retryAfterMs))) {
+    return parseFloat(retryAfterMs);
+  }
+
+  const retryAfter = getHeader(headers, 'retry-after');
+  if (retryAfter !== undefined) {
+    const wait = parseResetValue(retryAfter);
+    if (wait !== undefined) return Math.max(0, wait);
+  }
+
+  // Reset headers describe when the whole window refills, so only use them when the server gave no Retry-After
+  const waits = ['x-ratelimit-reset', 'x-ratelimit-reset-requests', 'x-ratelimit-reset-tokens']
+    .map((name) => getHeader(headers, name))
+    .filter((value): value is string => value !== undefined)
+    .map(parseResetValue)
+    .filter((value): value is number => value !== undefined);
+
+  return waits.length > 0 ? Math.max(0, ...waits) : undefined;
+}
+
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+
+function isNetworkError(error: unknown): boolean {
+  const err = error as any;
+  const code = err?.code ?? err?.cause?.code;
+
+  return (
+    NETWORK_ERROR_CODES.includes(code) ||
+    err?.name === 'APIConnectionError' ||
+    // undici (global fetch) reports connection failures as TypeError('fetch failed')
+    (err?.name === 'TypeError' && err?.message === 'fetch failed')
+  );
+}
+
+/**
+ * Errors that match no known class (e.g. programming errors) are 'unknown' and never retried
+ */
+export function classifyError(error: unknown): ErrorClass {
+  if (isAbortError(error)) return 'abort';
+  if (isToolValidationError(error)) return 'validation';
+
+  const status = getErrorStatus(error);
+
+  if (status === 429) return 'rate_limit';
+  if (status === 408) return 'timeout';
+  if (status === 401 || status === 403) return 'auth';
+  if (status !== undefined && status >= 500) return 'server';
+  if (status !== undefined && status >= 400) return 'client';
+
+  const { name = '', code = '' } = (error as any) || {};
+  if (/timeout/i.test(name) || code === 'ETIMEDOUT' || (error as any)?.cause?.code === 'ETIMEDOUT') return 'timeout';
+  return isNetworkError(error) ? 'network' : 'unknown';
+}
+
+/**
+ * Network failures, timeouts, 429 and 5xx are retryable; validation errors, other 4xx, aborts and unknown errors are not
+ */
+export function isRetryableError(error: unknown): boolean {
+  return ['rate_limit', 'server', 'network', 'timeout'].includes(classifyError(error));
+}
+
+export function getRetryDelay(attempt: number, config?: RetryConfig): number {
+  const finalConfig = resolveRetryConfig(DEFAULT_RETRY_CONFIG, config) as Required<RetryConfig>;
+  const delay = finalConfig.exponentialBackoff ? finalConfig.initialDelay * 2 ** (attempt - 1) : finalConfig.initialDelay;
+  return Math.min(delay, finalConfig.maxDelay);
+}
+
+export async function retryWithBackoff<T>(fn: (attempt: number) => Promise<T>, config?: RetryConfig, options: RetryOptions = {}): Promise<T> {
+  const finalConfig = resolveRetryConfig(DEFAULT_RETRY_CONFIG, config) as Required<RetryConfig>;
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(options.signal);
+
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      const retryAfter = getRetryAfter(error);
+
+      if (
+        attempt >= finalConfig.maxAttempts ||
+        !(isRetryableError(error) || (options.retryUnknown && classifyError(error) === 'unknown')) ||
+        (retryAfter !== undefined && retryAfter > finalConfig.maxRetryAfter) ||
+        options.signal?.aborted
+      ) {
+        throw error;
       }
-    },
-  });
+
+      await finalConfig.onRetry?.(attempt, error as Error);
+      await options.onRetry?.(attempt, error as Error);
+      await sleep(Math.max(getRetryDelay(attempt, finalConfig), retryAfter ?? 0), options.signal);
+    }
+  }
 }
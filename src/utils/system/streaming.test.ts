@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { createMarkupFilter, createStreamChannel } from './streaming';
+
+function filterAll(chunks: string[]): string {
+  const filter = createMarkupFilter(['tool_call', 'agent_call']);
+  return chunks.map((chunk) => filter.push(chunk)).join('') + filter.flush();
+}
+
+describe('createMarkupFilter', () => {
+  it('removes tool and agent call blocks', () => {
+    expect(filterAll(['Hi <tool_call><name>x</name></tool_call> and <agent_call>y</agent_call>!'])).toBe('Hi  and !');
+  });
+
+  it('handles tags split across chunks', () => {
+    expect(filterAll(['Hi <', 'tool_', 'call><name>x</name></tool', '_call> there'])).toBe('Hi  there');
+  });
+
+  it('holds back a possible opening tag until it is ruled out', () => {
+    const filter = createMarkupFilter(['tool_call']);
+    expect(filter.push('a <to')).toBe('a ');
+    expect(filter.push('p')).toBe('<top');
+  });
+
+  it('keeps other markup', () => {
+    expect(filterAll(['a<b and <em>c</em>'])).toBe('a<b and <em>c</em>');
+  });
+
+  it('drops an unterminated block and releases a trailing partial tag on flush', () => {
+    expect(filterAll(['x <tool_call><name>'])).toBe('x ');
+    expect(filterAll(['x <tool'])).toBe('x <tool');
+  });
+});
+
+describe('createStreamChannel', () => {
+  it('yields pushed values in order and ends on close', async () => {
+    const channel = createStreamChannel<number>();
+    channel.push(1);
+    setTimeout(() => {
+      channel.push(2);
+      channel.close();
+    }, 5);
+
+    const values: number[] = [];
+    for await (const value of channel) values.push(value);
+
+    expect(values).toEqual([1, 2]);
+  });
+});
@@ -26,3 +26,120 @@ export async function* simulateStreaming(text: string, chunkSize: number = 3, de
     }
   }
 }
+
+export interface StreamChannel<T> extends AsyncIterableIterator<T> {
+  push(value: T): void;
+  close(): void;
+}
+
+export function createStreamChannel<T>(): StreamChannel<T> {
+  const buffer: T[] = [];
+  let waiting: ((result: IteratorResult<T>) => void) | null = null;
+  let closed = false;
+
+  const channel: StreamChannel<T> = {
+    push(value: T) {
+      if (closed) return;
+
+      if (waiting) {
+        const resolve = waiting;
+        waiting = null;
+        resolve({ value, done: false });
+      } else {
+        buffer.push(value);
+      }
+    },
+    close() {
+      closed = true;
+
+      if (waiting) {
+        const resolve = waiting;
+        waiting = null;
+        resolve({ value: undefined, done: true });
+      }
+    },
+    next(): Promise<IteratorResult<T>> {
+      if (buffer.length > 0) {
+        return Promise.resolve({ value: buffer.shift()!, done: false });
+      }
+
+      if (closed) {
+        return Promise.resolve({ value: undefined, done: true });
+      }
+
+      return new Promise((resolve) => {
+        waiting = resolve;
+      });
+    },
+    [Symbol.asyncIterator]() {
+      return channel;
+    },
+  };
+
+  return channel;
+}
+
+export interface MarkupFilter {
+  /** Feed a chunk of text, returning the part that is safe to show */
+  push(text: string): string;
+  /** Release text held back at the end of the stream */
+  flush(): string;
+}
+
+/**
+ * Remove <tag>...</tag> blocks from streamed text, holding back chunks that may open or close one
+ */
+export function createMarkupFilter(tags: string[]): MarkupFilter {
+  const openers = tags.map((tag) => `<${tag}`);
+  let pending = '';
+  let closing: string | null = null;
+
+  return {
+    push(text: string) {
+      pending += text;
+      let visible = '';
+
+      while (pending) {
+        if (closing) {
+          const end = pending.indexOf(closing);
+
+          if (end === -1) {
+            // Keep just enough to recognise a closing tag split across chunks
+            pending = pending.slice(-(closing.length - 1));
+            break;
+          }
+
+          pending = pending.slice(end + closing.length);
+          closing = null;
+          continue;
+        }
+
+        const starts = openers.map((opener) => pending.indexOf(opener)).filter((index) => index !== -1);
+
+        if (starts.length > 0) {
+          const start = Math.min(...starts);
+          visible += pending.slice(0, start);
+          closing = `</${tags[openers.findIndex((opener) => pending.startsWith(opener, start))]}>`;
+          pending = pending.slice(start);
+          continue;
+        }
+
+        const lastOpen = pending.lastIndexOf('<');
+        const partial = lastOpen !== -1 && openers.some((opener) => opener.startsWith(pending.slice(lastOpen)));
+        const cut = partial ? lastOpen : pending.length;
+
+        visible += pending.slice(0, cut);
+        pending = pending.slice(cut);
+        break;
+      }
+
+      return visible;
+    },
+    flush() {
+      const rest = closing ? '' : pending;
+      pending = '';
+      closing = null;
+      return rest;
+    },
+  };
+}
@@ -1,4 +1,5 @@
 import type { z } from 'zod';
+import { jsonrepair } from 'jsonrepair';
 
 export function validate<T extends z.ZodSchema>(schema: T, data: unknown): z.infer<T> {
   return schema.parse(data);
@@ -21,3 +22,32 @@ export function validateWithErrors<T extends z.ZodSchema>(schema: T, data: unkno
     errors: result.error.issues,
   };
 }
+
+export function formatZodIssues(issues: Array<{ path: PropertyKey[]; message: string }>): string {
+  return issues.map((issue) => `- ${issue.path.length > 0 ? issue.path.map(String).join('.') : '(root)'}: ${issue.message}`).join('\n');
+}
+
+export function createToolValidationError(toolName: string, issues: Array<{ path: PropertyKey[]; message: string }>): Error {
+  const error = new Error(`Invalid arguments for tool '${toolName}':\n${formatZodIssues(issues)}\nCall '${toolName}' again with corrected arguments.`);
+  error.name = 'ToolValidationError';
+  return error;
+}
+
+export function isToolValidationError(error: unknown): boolean {
+  return (error as Error)?.name === 'ToolValidationError';
+}
+
+export function parseJsonOutput(content: string): unknown {
+  const fenced = /```(?:json)?\s*([\s\S]*?)\s*```/.exec(content);
+  let candidate = fenced ? fenced[1] : content;
+
+  const start = candidate.search(/[\[{]/);
+  if (start === -1) {
+    throw new Error('No JSON found in response');
+  }
+
+  const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+  candidate = end > start ? candidate.substring(start, end + 1) : candidate.substring(start);
+
+  return JSON.parse(jsonrepair(candidate));
+}